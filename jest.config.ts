@@ -10,4 +10,5 @@ export default {
   preset: "ts-jest/presets/default-esm",
   roots: ["<rootDir>/src"],
   globalSetup: "./setup.ts",
+  setupFilesAfterEnv: ["./setupTests.ts"],
 };
@@ -0,0 +1,15 @@
+import path from "path";
+
+// Tests clean and corrupt the global cache on purpose, so they get their own inside output/, which setup.ts empties
+// before every run, and the developer's global-cache is never touched
+jest.mock("./src/util/paths", () => {
+  const paths = jest.requireActual("./src/util/paths");
+  const globalCachePath = path.join(paths.outputDir, "global-cache");
+  return {
+    ...paths,
+    globalCachePath,
+    cacheManifestPath: path.join(globalCachePath, "manifest.json"),
+    metadataCachePath: path.join(globalCachePath, "metadata"),
+    cacheTempPath: path.join(globalCachePath, "tmp"),
+  };
+});
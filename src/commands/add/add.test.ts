@@ -1,5 +1,6 @@
 import fs from "fs";
-import { packageJsonPath } from "../../util/paths";
+import path from "path";
+import { outputDir, packageJsonPath } from "../../util/paths";
 import { addPackage } from "./add";
 
 describe("npm add function", () => {
@@ -18,4 +19,88 @@ describe("npm add function", () => {
     );
     expect(packageJson.dependencies["is-thirteen"]).toBe("2.0.0"); // hasn't changed in 8 years
   });
+
+  it("should add a scoped package", async () => {
+    await addPackage("@types/semver@7.7.0");
+    const packageJson = JSON.parse(
+      await fs.promises.readFile(packageJsonPath, "utf8")
+    );
+    expect(packageJson.dependencies["@types/semver"]).toBe("7.7.0");
+    expect(packageJson.dependencies[""]).toBeUndefined();
+  });
+
+  it("should store ranges and dist-tags as typed", async () => {
+    await addPackage("is-thirteen@>=1 <3");
+    await addPackage("is-fourteen@next");
+    const packageJson = JSON.parse(
+      await fs.promises.readFile(packageJsonPath, "utf8")
+    );
+    expect(packageJson.dependencies["is-thirteen"]).toBe(">=1 <3");
+    expect(packageJson.dependencies["is-fourteen"]).toBe("next");
+  });
+
+  it("should save the latest version with a prefix unless exact", async () => {
+    await addPackage("is-thirteen", { savePrefix: "^" });
+    let packageJson = JSON.parse(
+      await fs.promises.readFile(packageJsonPath, "utf8")
+    );
+    expect(packageJson.dependencies["is-thirteen"]).toBe("^2.0.0");
+
+    await addPackage("is-thirteen", { savePrefix: "^", saveExact: true });
+    packageJson = JSON.parse(await fs.promises.readFile(packageJsonPath, "utf8"));
+    expect(packageJson.dependencies["is-thirteen"]).toBe("2.0.0");
+  });
+
+  it("should resolve aliases to the latest version of the real package", async () => {
+    await addPackage("thirteen@npm:is-thirteen", { savePrefix: "~" });
+    const packageJson = JSON.parse(
+      await fs.promises.readFile(packageJsonPath, "utf8")
+    );
+    expect(packageJson.dependencies["thirteen"]).toBe("npm:is-thirteen@~2.0.0");
+  });
+
+  it("should add local directories under their own name", async () => {
+    const localPath = path.join(outputDir, "local-package");
+    fs.mkdirSync(localPath, { recursive: true });
+    fs.writeFileSync(
+      path.join(localPath, "package.json"),
+      JSON.stringify({ name: "local-package", version: "0.1.0" })
+    );
+
+    await addPackage("./local-package");
+    const packageJson = JSON.parse(
+      await fs.promises.readFile(packageJsonPath, "utf8")
+    );
+    expect(packageJson.dependencies["local-package"]).toBe("file:./local-package");
+  });
+
+  it("should move packages between dependency types", async () => {
+    const readPackageJson = async () =>
+      JSON.parse(await fs.promises.readFile(packageJsonPath, "utf8"));
+
+    await addPackage("is-fourteen@0.0.14", { saveDev: true });
+    let packageJson = await readPackageJson();
+    expect(packageJson.devDependencies["is-fourteen"]).toBe("0.0.14");
+    expect(packageJson.dependencies["is-fourteen"]).toBeUndefined();
+
+    await addPackage("is-fourteen@0.0.14", { saveOptional: true });
+    packageJson = await readPackageJson();
+    expect(packageJson.optionalDependencies["is-fourteen"]).toBe("0.0.14");
+    expect(packageJson.devDependencies["is-fourteen"]).toBeUndefined();
+
+    await addPackage("is-fourteen@0.0.14");
+    packageJson = await readPackageJson();
+    expect(packageJson.dependencies["is-fourteen"]).toBe("0.0.14");
+    expect(packageJson.optionalDependencies["is-fourteen"]).toBeUndefined();
+  });
+
+  it("should reject --save-dev together with --save-optional", async () => {
+    await expect(
+      addPackage("is-fourteen", { saveDev: true, saveOptional: true })
+    ).rejects.toThrow("cannot be used together");
+  });
+
+  it("should reject git dependencies", async () => {
+    await expect(addPackage("github:user/repo")).rejects.toThrow("not supported");
+  });
 });
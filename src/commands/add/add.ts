@@ -1,20 +1,92 @@
 import fs from "fs";
-import { DEFAULT_PACKAGE_JSON } from "../../util/packageJson";
+import { getCacheMode } from "../../util/cache";
+import { getExternalLocation, readExternalManifest } from "../../util/external";
+import { loadNpmConfig } from "../../util/npmrc";
+import {
+  DEFAULT_PACKAGE_JSON,
+  DEPENDENCY_TYPES,
+  DependencyType,
+} from "../../util/packageJson";
 import { outputDir, packageJsonPath } from "../../util/paths";
-import { getPackageInfo } from "../../util/registry";
+import { createRegistryClient, RegistryClient } from "../../util/registry";
+import { PackageSpec, parsePackageSpec } from "../../util/packageSpec";
 
-export async function addPackage(pkg: string) {
-  let [packageName, version] = pkg.split("@");
+/**
+ * saveExact: save the exact version that was resolved, overriding any save-prefix
+ * savePrefix: the prefix to save in front of a resolved version, e.g. "^" or "~" (defaults to .npmrc's save-prefix, or
+ * none at all)
+ * saveDev: save to devDependencies instead of dependencies
+ * saveOptional: save to optionalDependencies instead of dependencies
+ * registry: where to look up the latest version (defaults to the registry configured in .npmrc)
+ */
+export interface AddOptions {
+  saveExact?: boolean;
+  savePrefix?: string;
+  saveDev?: boolean;
+  saveOptional?: boolean;
+  registry?: RegistryClient;
+}
+
+function getSavePrefix(options: AddOptions): string {
+  const settings = loadNpmConfig().settings;
+  if (options.saveExact || (options.savePrefix === undefined && settings["save-exact"] === "true")) {
+    return "";
+  }
+  return options.savePrefix ?? settings["save-prefix"] ?? "";
+}
+
+/**
+ * Works out the name to save a spec under and the spec to save. Whatever the user typed is saved as-is; only a bare
+ * name or the "latest" tag is resolved to a version, which then gets the save prefix.
+ */
+async function getSavedDependency(
+  spec: PackageSpec,
+  savePrefix: string,
+  registry: RegistryClient
+): Promise<[string, string]> {
+  if (spec.type === "git") {
+    throw new Error(`Cannot add ${spec.rawSpec}: git dependencies are not supported`);
+  }
+
+  // Paths and URLs take their name from their own package.json unless one was given
+  if (spec.type === "file" || spec.type === "remote") {
+    const name = spec.name || (await readExternalManifest(getExternalLocation(spec), registry)).name;
+    const rawSpec = spec.type === "file" && !spec.rawSpec.startsWith("file:")
+      ? `file:${spec.rawSpec}`
+      : spec.rawSpec;
+    return [name, rawSpec];
+  }
 
-  // If no specified version, or version is "latest", request latest version number
-  if (!version || version === "latest") {
-    const info = await getPackageInfo({
-      name: packageName,
-      version: "latest",
-    });
-    version = info.version;
+  const name = spec.name!;
+  const target = spec.subSpec || spec;
+  if (target.type === "tag" && target.fetchSpec === "latest") {
+    const info = await registry.getVersion({ name: target.name!, version: "latest" });
+    const version = `${savePrefix}${info.version}`;
+    return [name, spec.type === "alias" ? `npm:${target.name}@${version}` : version];
   }
 
+  return [name, spec.rawSpec];
+}
+
+/**
+ * This is the function that is called when the `add` CLI command is run
+ */
+export async function addPackage(pkg: string, options: AddOptions = {}) {
+  if (options.saveDev && options.saveOptional) {
+    throw new Error("--save-dev and --save-optional cannot be used together");
+  }
+  const dependencyType: DependencyType = options.saveDev
+    ? "devDependencies"
+    : options.saveOptional
+      ? "optionalDependencies"
+      : "dependencies";
+
+  const [packageName, version] = await getSavedDependency(
+    parsePackageSpec(pkg),
+    getSavePrefix(options),
+    options.registry || createRegistryClient(getCacheMode({}, loadNpmConfig().settings))
+  );
+
   // Create output dir and package.json if not exist
   if (!fs.existsSync(outputDir)) {
     fs.mkdirSync(outputDir);
@@ -26,8 +98,14 @@ export async function addPackage(pkg: string) {
     );
   }
 
-  // Add package to package.json
+  // Add package to package.json, moving it out of any other dependency type it was saved as
   const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
-  packageJson.dependencies[packageName] = version || "latest";
+  for (const type of DEPENDENCY_TYPES) {
+    if (type !== dependencyType && packageJson[type]) {
+      delete packageJson[type][packageName];
+    }
+  }
+  packageJson[dependencyType] = packageJson[dependencyType] || {};
+  packageJson[dependencyType][packageName] = version;
   fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
 }
@@ -0,0 +1,39 @@
+import { cleanCache, readCacheManifest, verifyCache } from "../../util/cache";
+import { globalCachePath } from "../../util/paths";
+
+/**
+ * This is the function that is called when the `cache ls` CLI command is run
+ */
+export function listCachedPackages() {
+  const entries = Object.values(readCacheManifest()).sort((a, b) =>
+    `${a.name}@${a.version}`.localeCompare(`${b.name}@${b.version}`)
+  );
+
+  if (entries.length === 0) {
+    console.log("The global cache is empty");
+    return;
+  }
+  for (const entry of entries) {
+    console.log(`${entry.name}@${entry.version} ${entry.integrity}`);
+  }
+}
+
+/**
+ * This is the function that is called when the `cache verify` CLI command is run
+ */
+export function verifyCachedPackages() {
+  const { verified, removed } = verifyCache();
+
+  for (const entry of removed) {
+    console.log(`Removed corrupt entry ${entry.name}@${entry.version}`);
+  }
+  console.log(`Verified ${verified.length} cached packages in ${globalCachePath}`);
+}
+
+/**
+ * This is the function that is called when the `cache clean` CLI command is run
+ */
+export function cleanCachedPackages() {
+  cleanCache();
+  console.log(`Removed ${globalCachePath}`);
+}
@@ -0,0 +1,58 @@
+import fs from "fs";
+import { createLockfile, writeLockfile } from "../../util/lockfile";
+import { packageLockJsonPath } from "../../util/paths";
+import { syncDependencies } from "../install/install";
+import { dedupePackages } from "./dedupe";
+
+jest.mock("../install/install");
+
+const topLevel = { "user-a": "^1.0.0", "user-b": "^1.0.0" };
+
+describe("dedupePackages", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(packageLockJsonPath, { force: true });
+  });
+
+  it("plans again with the fewest-copies strategy and compares the statistics", async () => {
+    writeLockfile(
+      createLockfile(
+        [
+          { name: "popular", version: "2.0.0" },
+          { name: "user-a", version: "1.0.0" },
+          { name: "user-b", version: "1.0.0" },
+          { name: "popular", version: "1.0.0", parentDirectory: "user-a/node_modules" },
+          { name: "popular", version: "1.0.0", parentDirectory: "user-b/node_modules" },
+        ],
+        topLevel
+      )
+    );
+    (syncDependencies as jest.Mock).mockImplementation(async () => {
+      writeLockfile(
+        createLockfile(
+          [
+            { name: "popular", version: "1.0.0" },
+            { name: "user-a", version: "1.0.0" },
+            { name: "user-b", version: "1.0.0" },
+          ],
+          topLevel
+        )
+      );
+    });
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    await dedupePackages();
+
+    expect(syncDependencies).toHaveBeenCalledWith({ replan: true, hoisting: "fewest-copies" });
+    expect(log).toHaveBeenCalledWith(
+      [
+        "Deduplicated (before -> after):",
+        "Total packages: 5 -> 3",
+        "Root packages: 3 -> 3",
+        "Nested packages: 2 -> 0",
+        "Maximum nesting depth: 1 -> 0",
+        "Flattening efficiency: 60% -> 100%",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import { lockfileToPlan, readLockfile } from "../../util/lockfile";
+import { syncDependencies } from "../install/install";
+import { formatInstallationStatistics, getInstallationStatistics } from "../install/TODO";
+
+/**
+ * hoisting: the name of the strategy to plan with (defaults to "fewest-copies")
+ */
+export interface DedupeOptions {
+  hoisting?: string;
+}
+
+/**
+ * This is the function that is called when the `dedupe` CLI command is run
+ */
+export async function dedupePackages(options: DedupeOptions = {}) {
+  const before = readLockfile();
+  await syncDependencies({ replan: true, hoisting: options.hoisting || "fewest-copies" });
+  const after = readLockfile()!;
+
+  const statistics = getInstallationStatistics(lockfileToPlan(after));
+  const previous = before && getInstallationStatistics(lockfileToPlan(before));
+  console.log(
+    `${previous ? "Deduplicated (before -> after)" : "Deduplicated"}:\n` +
+      formatInstallationStatistics(statistics, previous)
+  );
+}
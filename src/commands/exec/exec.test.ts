@@ -0,0 +1,41 @@
+import fs from "fs";
+import path from "path";
+import { nodeModulesPath, outputDir } from "../../util/paths";
+import { execBinary } from "./exec";
+
+const outPath = path.join(outputDir, "exec.json");
+
+describe("execBinary", () => {
+  afterEach(() => {
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+    fs.rmSync(outPath, { force: true });
+  });
+
+  function writeBin(name: string, source: string) {
+    const packagePath = path.join(nodeModulesPath, name);
+    fs.mkdirSync(path.join(nodeModulesPath, ".bin"), { recursive: true });
+    fs.mkdirSync(packagePath, { recursive: true });
+    fs.writeFileSync(path.join(packagePath, "cli.js"), `#!/usr/bin/env node\n${source}`, { mode: 0o755 });
+    fs.symlinkSync(path.join("..", name, "cli.js"), path.join(nodeModulesPath, ".bin", name));
+  }
+
+  it("runs an installed command in the project folder with its arguments", async () => {
+    writeBin(
+      "tool",
+      `require("fs").writeFileSync("exec.json", JSON.stringify({ args: process.argv.slice(2), path: process.env.PATH }));`
+    );
+
+    await execBinary("tool", ["--flag", "two words"]);
+
+    const result = JSON.parse(fs.readFileSync(outPath, "utf8"));
+    expect(result.args).toEqual(["--flag", "two words"]);
+    expect(result.path.split(path.delimiter)[0]).toBe(path.join(nodeModulesPath, ".bin"));
+  });
+
+  it("fails for a command that isn't installed, or that exits with an error", async () => {
+    await expect(execBinary("missing")).rejects.toThrow("missing is not installed in node_modules/.bin");
+
+    writeBin("failing", "process.exit(4);");
+    await expect(execBinary("failing")).rejects.toThrow("failing failed with exit code 4");
+  });
+});
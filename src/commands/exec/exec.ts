@@ -0,0 +1,32 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import path from "path";
+import { nodeModulesPath, outputDir } from "../../util/paths";
+import { getScriptEnvironment, readManifest } from "../../util/scripts";
+
+/**
+ * This is the function that is called when the `exec` CLI command is run
+ */
+export async function execBinary(bin: string, args: string[] = []) {
+  const binPath = path.join(nodeModulesPath, ".bin", bin);
+  if (!fs.existsSync(binPath)) {
+    throw new Error(`${bin} is not installed in node_modules/.bin, add the package that provides it first`);
+  }
+
+  // The command runs the way a script would, so that it finds the other installed commands too
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn(binPath, args, {
+      cwd: outputDir,
+      env: getScriptEnvironment(outputDir, readManifest(outputDir), "exec"),
+      stdio: "inherit",
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${bin} failed with exit code ${code}`));
+      }
+    });
+  });
+}
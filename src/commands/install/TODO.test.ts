@@ -1,11 +1,11 @@
-import { constructInstallationPlan, PackageMetadata } from "./TODO";
-import { getPackageMetadata } from "../../util/registry";
-import { InstallationPlan, DependencyInstallation } from "../../types";
+import { constructInstallationPlan, PackageMetadata, visualizeInstallationTree } from "./TODO";
+import { RegistryClient } from "../../util/registry";
+import { InstallationPlan, DependencyInstallation, Packument } from "../../types";
 import semver from "semver";
-
-
-// Mock only the external API dependency
-jest.mock("../../util/registry");
+import fs from "fs";
+import path from "path";
+import { outputDir } from "../../util/paths";
+import { fewestCopiesStrategy } from "./hoisting";
 
 // Predefined test package data
 const testPackages: Record<string, PackageMetadata> = {
@@ -148,9 +148,185 @@ const testPackages: Record<string, PackageMetadata> = {
     "1.7.0": { dependencies: {} },
     "2.0.0": { dependencies: {} }
   }
+},
+"@scope/app": {
+  versions: {
+    "1.0.0": {
+      dependencies: {
+        "@scope/util": "^1.0.0"
+      }
+    }
+  }
+},
+"@scope/plugin": {
+  versions: {
+    "1.0.0": {
+      dependencies: {
+        "@scope/util": "^2.0.0"
+      }
+    }
+  }
+},
+"tagged-package": {
+  "dist-tags": {
+    latest: "1.0.0",
+    next: "2.0.0-beta.1"
+  },
+  versions: {
+    "1.0.0": { dependencies: {} },
+    "2.0.0-beta.1": { dependencies: {} }
+  }
+},
+"@scope/util": {
+  versions: {
+    "1.0.0": { dependencies: {} },
+    "2.0.0": { dependencies: {} }
+  }
+},
+"with-optional": {
+  versions: {
+    "1.0.0": {
+      dependencies: {
+        "simple-package": "^1.0.0"
+      },
+      optionalDependencies: {
+        "package-b": "^1.0.0",
+        "missing-native": "^1.0.0"
+      }
+    }
+  }
+},
+"react": {
+  versions: {
+    "17.0.0": { dependencies: {} },
+    "18.2.0": { dependencies: {} }
+  }
+},
+"react-plugin": {
+  versions: {
+    "1.0.0": {
+      dependencies: {},
+      peerDependencies: {
+        "react": "^18.0.0"
+      }
+    }
+  }
+},
+"legacy-plugin": {
+  versions: {
+    "1.0.0": {
+      dependencies: {},
+      peerDependencies: {
+        "react": "^17.0.0"
+      }
+    },
+    "2.0.0": {
+      dependencies: {},
+      peerDependencies: {
+        "react": "^18.0.0"
+      }
+    }
+  }
+},
+"plugin-host": {
+  versions: {
+    "1.0.0": {
+      dependencies: {
+        "legacy-plugin": "^1.0.0"
+      }
+    }
+  }
+},
+"optional-peer-plugin": {
+  versions: {
+    "1.0.0": {
+      dependencies: {},
+      peerDependencies: {
+        "missing-native": "^1.0.0"
+      },
+      peerDependenciesMeta: {
+        "missing-native": { optional: true }
+      }
+    }
+  }
+},
+"self-dependent": {
+  versions: {
+    "1.0.0": {
+      dependencies: {
+        "self-dependent": "^1.0.0"
+      }
+    }
+  }
+},
+"cycle-a": {
+  versions: {
+    "1.0.0": { dependencies: { "cycle-b": "^1.0.0" } }
+  }
+},
+"cycle-b": {
+  versions: {
+    "1.0.0": { dependencies: { "cycle-c": "^1.0.0" } }
+  }
+},
+"cycle-c": {
+  versions: {
+    "1.0.0": { dependencies: { "cycle-a": "^1.0.0" } }
+  }
+},
+"ring-a": {
+  versions: {
+    "1.0.0": { dependencies: { "ring-b": "^1.0.0" } },
+    "2.0.0": { dependencies: {} }
+  }
+},
+"ring-b": {
+  versions: {
+    "1.0.0": { dependencies: { "ring-a": "^1.0.0" } },
+    "2.0.0": { dependencies: {} }
+  }
+},
+"ring-host": {
+  versions: {
+    "1.0.0": { dependencies: { "ring-a": "^1.0.0" } }
+  }
+},
+"popular": {
+  versions: {
+    "1.0.0": { dependencies: {} },
+    "2.0.0": { dependencies: {} }
+  }
+},
+"popular-user-1": { versions: { "1.0.0": { dependencies: { "popular": "^1.0.0" } } } },
+"popular-user-2": { versions: { "1.0.0": { dependencies: { "popular": "^1.0.0" } } } },
+"popular-user-3": { versions: { "1.0.0": { dependencies: { "popular": "^1.0.0" } } } },
+"modern-user": { versions: { "1.0.0": { dependencies: { "popular": "^2.0.0" } } } },
+"newest-user": { versions: { "1.0.0": { dependencies: { "popular": ">=2.0.0" } } } },
+"dev-tool": {
+  versions: {
+    "1.0.0": {
+      dependencies: {
+        "package-b": "^1.0.0",
+        "shared-dep": "^1.0.0"
+      }
+    }
+  }
 }
 };
 
+// Serves the test packages in place of the registry
+const registry: RegistryClient = {
+  getPackument: jest.fn(async (packageName: string): Promise<Packument> => {
+    const packageData = testPackages[packageName];
+    if (!packageData) {
+      throw new Error(`Test package not defined: ${packageName}`);
+    }
+    return packageData as Packument;
+  }),
+  getVersion: jest.fn(),
+  fetchTarball: jest.fn(),
+};
+
 describe("constructInstallationPlan", () => {
   beforeEach(() => {
     // Clear all mocks before each test
@@ -159,14 +335,6 @@ describe("constructInstallationPlan", () => {
     // Mock console.log to avoid cluttering test output
     // console.log = jest.fn();
 
-    // Set up getPackageMetadata mock to use our test packages
-    (getPackageMetadata as jest.Mock).mockImplementation((packageName: string): PackageMetadata => {
-      const packageData = testPackages[packageName];
-      if (!packageData) {
-        throw new Error(`Test package not defined: ${packageName}`);
-      }
-      return packageData;
-    });
   });
 
   test("should create a minimal installation plan with a single package", async () => {
@@ -174,7 +342,7 @@ describe("constructInstallationPlan", () => {
       "simple-package": "^1.0.0"
     };
 
-    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies);
+    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies, { registry });
     
     // Verify the results
     expect(plan).toHaveLength(1);
@@ -183,9 +351,9 @@ describe("constructInstallationPlan", () => {
       version: "1.1.0" // Should select the latest version
     });
     
-    // Check that getPackageMetadata was called exactly once
-    expect(getPackageMetadata).toHaveBeenCalledTimes(1);
-    expect(getPackageMetadata).toHaveBeenCalledWith("simple-package");
+    // Check that getPackument was called exactly once
+    expect(registry.getPackument).toHaveBeenCalledTimes(1);
+    expect(registry.getPackument).toHaveBeenCalledWith("simple-package");
   });
 
   test("should handle a package with a single dependency", async () => {
@@ -193,7 +361,7 @@ describe("constructInstallationPlan", () => {
       "package-a": "^2.0.0"
     };
 
-    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies);
+    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies, { registry });
     
     // Verify the results
     expect(plan).toHaveLength(2);
@@ -212,10 +380,10 @@ describe("constructInstallationPlan", () => {
       version: "1.2.0" // Should select the latest version
     });
     
-    // Verify that getPackageMetadata was called for both packages
-    expect(getPackageMetadata).toHaveBeenCalledTimes(2);
-    expect(getPackageMetadata).toHaveBeenCalledWith("package-a");
-    expect(getPackageMetadata).toHaveBeenCalledWith("package-b");
+    // Verify that getPackument was called for both packages
+    expect(registry.getPackument).toHaveBeenCalledTimes(2);
+    expect(registry.getPackument).toHaveBeenCalledWith("package-a");
+    expect(registry.getPackument).toHaveBeenCalledWith("package-b");
   });
 
   test("should handle a complex package with multiple dependencies", async () => {
@@ -223,7 +391,7 @@ describe("constructInstallationPlan", () => {
       "complex-package": "^3.0.0"
     };
 
-    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies);
+    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies, { registry });
     
     // Verify the plan contains all expected packages
     expect(plan).toHaveLength(3);
@@ -248,7 +416,7 @@ describe("constructInstallationPlan", () => {
     });
     
     // Verify API calls
-    expect(getPackageMetadata).toHaveBeenCalledTimes(3);
+    expect(registry.getPackument).toHaveBeenCalledTimes(3);
   });
 
   test("should handle nested dependencies with version conflicts", async () => {
@@ -257,7 +425,7 @@ describe("constructInstallationPlan", () => {
       "package-d": "^1.0.0"
     };
   
-    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies);
+    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies, { registry });
     
     // Verify we have the expected number of packages (4 total)
     expect(plan).toHaveLength(4);
@@ -294,11 +462,11 @@ describe("constructInstallationPlan", () => {
       parentDirectory: "package-c/node_modules"
     });
     
-    // Verify that getPackageMetadata was called for all packages
-    expect(getPackageMetadata).toHaveBeenCalledTimes(3);
-    expect(getPackageMetadata).toHaveBeenCalledWith("package-c");
-    expect(getPackageMetadata).toHaveBeenCalledWith("package-d");
-    expect(getPackageMetadata).toHaveBeenCalledWith("shared-dep");
+    // Verify that getPackument was called for all packages
+    expect(registry.getPackument).toHaveBeenCalledTimes(3);
+    expect(registry.getPackument).toHaveBeenCalledWith("package-c");
+    expect(registry.getPackument).toHaveBeenCalledWith("package-d");
+    expect(registry.getPackument).toHaveBeenCalledWith("shared-dep");
   });
 
   test("should handle multiple packages requiring lower version dependencies", async () => {
@@ -306,7 +474,7 @@ describe("constructInstallationPlan", () => {
       "root-package": "^1.0.0"
     };
   
-    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies);
+    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies, { registry });
     
     // We expect 6 packages total: root-package, package-e, package-f, 
     // one shared-dep-2 at root level, and two nested shared-dep-2 instances
@@ -357,12 +525,44 @@ describe("constructInstallationPlan", () => {
     expect(packageFSharedDep).toBeDefined();
     expect(packageFSharedDep?.version).toBe("1.2.0"); // Highest version that satisfies ^1.0.0
     
-    // Verify that getPackageMetadata was called for all unique packages
-    expect(getPackageMetadata).toHaveBeenCalledTimes(4);
-    expect(getPackageMetadata).toHaveBeenCalledWith("root-package");
-    expect(getPackageMetadata).toHaveBeenCalledWith("package-e");
-    expect(getPackageMetadata).toHaveBeenCalledWith("package-f");
-    expect(getPackageMetadata).toHaveBeenCalledWith("shared-dep-2");
+    // Verify that getPackument was called for all unique packages
+    expect(registry.getPackument).toHaveBeenCalledTimes(4);
+    expect(registry.getPackument).toHaveBeenCalledWith("root-package");
+    expect(registry.getPackument).toHaveBeenCalledWith("package-e");
+    expect(registry.getPackument).toHaveBeenCalledWith("package-f");
+    expect(registry.getPackument).toHaveBeenCalledWith("shared-dep-2");
+  });
+
+  test("should nest dependencies under where their dependent was actually installed", async () => {
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "root-package": "^1.0.0"
+    }, { registry });
+
+    // package-e is hoisted to the root, so its own copy of shared-dep-2 goes in node_modules/package-e/node_modules
+    expect(plan).toContainEqual({
+      name: "shared-dep-2",
+      version: "1.2.0",
+      parentDirectory: "package-e/node_modules"
+    });
+    for (const dep of plan.filter(p => p.parentDirectory)) {
+      const parentLocation = dep.parentDirectory!.replace(/\/node_modules$/, "");
+      expect(plan.some(p => `${p.parentDirectory || ""}${p.parentDirectory ? "/" : ""}${p.name}` === parentLocation))
+        .toBe(true);
+    }
+  });
+
+  test("should keep the root slot of a top-level dependency for the version it asks for", async () => {
+    // modern-user comes first and asks for popular@^2.0.0, which is the optimal version, but package.json asks for ^1
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "modern-user": "^1.0.0",
+      "popular": "^1.0.0"
+    }, { registry });
+
+    expect(plan).toEqual([
+      { name: "modern-user", version: "1.0.0" },
+      { name: "popular", version: "2.0.0", parentDirectory: "modern-user/node_modules" },
+      { name: "popular", version: "1.0.0" }
+    ]);
   });
 
   test("should prioritize versions that satisfy the most requirements", async () => {
@@ -373,7 +573,7 @@ describe("constructInstallationPlan", () => {
       "multi-req-d": "^1.0.0"
     };
   
-    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies);
+    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies, { registry });
     
     // Check all packages are installed
     const packages = [
@@ -403,10 +603,343 @@ describe("constructInstallationPlan", () => {
     expect(nestedSharedPackage).toBeDefined();
     expect(nestedSharedPackage?.version).toBe("2.0.0");
     
-    // Verify that getPackageMetadata was called for all packages
-    expect(getPackageMetadata).toHaveBeenCalledTimes(5);
+    // Verify that getPackument was called for all packages
+    expect(registry.getPackument).toHaveBeenCalledTimes(5);
     
     // Count the total instances of shared-package
     expect(sharedPackages.length).toBe(2); // One at root, one nested
   });
-});
\ No newline at end of file
+
+  test("should keep locked versions that still satisfy their ranges", async () => {
+    const topLevelDependencies: Record<string, string> = {
+      "package-a": "^2.0.0"
+    };
+
+    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies, {
+      registry,
+      lockedVersions: new Map([["package-b", new Set(["1.0.0"])]])
+    });
+
+    // package-b@1.2.0 is newer, but 1.0.0 is locked and satisfies ^1.0.0
+    const packageB = plan.find(p => p.name === "package-b");
+    expect(packageB).toEqual({
+      name: "package-b",
+      version: "1.0.0"
+    });
+  });
+
+  test("should produce the same plan regardless of concurrency", async () => {
+    const topLevelDependencies: Record<string, string> = {
+      "root-package": "^1.0.0",
+      "package-c": "^1.0.0",
+      "package-d": "^1.0.0",
+      "multi-req-a": "^1.0.0",
+      "multi-req-d": "^1.0.0"
+    };
+
+    const serialPlan = await constructInstallationPlan(topLevelDependencies, { registry, concurrency: 1 });
+    const parallelPlan = await constructInstallationPlan(topLevelDependencies, { registry, concurrency: 8 });
+
+    expect(parallelPlan).toEqual(serialPlan);
+  });
+
+  test("should resolve and nest scoped packages", async () => {
+    const topLevelDependencies: Record<string, string> = {
+      "@scope/app": "^1.0.0",
+      "@scope/plugin": "^1.0.0"
+    };
+
+    const plan: InstallationPlan = await constructInstallationPlan(topLevelDependencies, { registry });
+
+    expect(plan).toHaveLength(4);
+    expect(plan).toContainEqual({ name: "@scope/app", version: "1.0.0" });
+    expect(plan).toContainEqual({ name: "@scope/plugin", version: "1.0.0" });
+    expect(plan).toContainEqual({ name: "@scope/util", version: "2.0.0" });
+    expect(plan).toContainEqual({
+      name: "@scope/util",
+      version: "1.0.0",
+      parentDirectory: "@scope/app/node_modules"
+    });
+    expect(registry.getPackument).toHaveBeenCalledWith("@scope/util");
+  });
+
+  test("should resolve dist-tags through the package metadata", async () => {
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "tagged-package": "next"
+    }, { registry });
+
+    expect(plan).toEqual([{ name: "tagged-package", version: "2.0.0-beta.1" }]);
+  });
+
+  test("should install aliases under their own name", async () => {
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "my-b": "npm:package-b@~1.0.0",
+      "package-b": "^1.0.0"
+    }, { registry });
+
+    expect(plan).toContainEqual({ name: "my-b", version: "1.0.0", packageName: "package-b" });
+    expect(plan).toContainEqual({ name: "package-b", version: "1.2.0" });
+    expect(registry.getPackument).toHaveBeenCalledTimes(1);
+  });
+
+  test("should resolve local directories and their dependencies", async () => {
+    const localPath = path.join(outputDir, "local-dir-package");
+    fs.mkdirSync(localPath, { recursive: true });
+    fs.writeFileSync(
+      path.join(localPath, "package.json"),
+      JSON.stringify({
+        name: "local-dir-package",
+        version: "0.3.0",
+        dependencies: { "simple-package": "^1.0.0" }
+      })
+    );
+
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "local-dir-package": "file:./local-dir-package"
+    }, { registry });
+
+    expect(plan).toContainEqual({
+      name: "local-dir-package",
+      version: "0.3.0",
+      resolved: `file:${localPath}`,
+      external: true
+    });
+    expect(plan).toContainEqual({ name: "simple-package", version: "1.1.0" });
+    expect(registry.getPackument).toHaveBeenCalledTimes(1);
+  });
+
+  test("should skip optional dependencies that fail to resolve", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "with-optional": "^1.0.0"
+    }, { registry });
+
+    expect(plan).toHaveLength(3);
+    expect(plan).toContainEqual({ name: "with-optional", version: "1.0.0" });
+    expect(plan).toContainEqual({ name: "simple-package", version: "1.1.0" });
+    expect(plan).toContainEqual({ name: "package-b", version: "1.2.0", optional: true });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("missing-native@^1.0.0"));
+    warn.mockRestore();
+  });
+
+  test("should fail when a required dependency can't be resolved", async () => {
+    await expect(
+      constructInstallationPlan({ "missing-native": "^1.0.0" }, { registry })
+    ).rejects.toThrow("Test package not defined: missing-native");
+  });
+
+  test("should flag packages only needed by devDependencies or optionalDependencies", async () => {
+    const plan: InstallationPlan = await constructInstallationPlan(
+      {
+        "package-a": "^2.0.0",
+        "dev-tool": "^1.0.0",
+        "simple-package": "^1.0.0"
+      },
+      {
+        registry,
+        devDependencies: new Set(["dev-tool"]),
+        optionalDependencies: new Set(["simple-package"])
+      }
+    );
+
+    expect(plan).toContainEqual({ name: "package-a", version: "2.0.0" });
+    // package-b is also needed by package-a, so it isn't dev-only
+    expect(plan).toContainEqual({ name: "package-b", version: "1.2.0" });
+    expect(plan).toContainEqual({ name: "dev-tool", version: "1.0.0", dev: true });
+    expect(plan).toContainEqual({ name: "shared-dep", version: "1.5.0", dev: true });
+    expect(plan).toContainEqual({ name: "simple-package", version: "1.1.0", optional: true });
+  });
+
+  test("should install missing peer dependencies at the root", async () => {
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "react-plugin": "^1.0.0"
+    }, { registry });
+
+    expect(plan).toHaveLength(2);
+    expect(plan).toContainEqual({ name: "react-plugin", version: "1.0.0" });
+    expect(plan).toContainEqual({ name: "react", version: "18.2.0" });
+  });
+
+  test("should use the project's own copy of a peer dependency", async () => {
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "react": "^18.0.0",
+      "react-plugin": "^1.0.0"
+    }, { registry });
+
+    expect(plan.filter(p => p.name === "react")).toEqual([{ name: "react", version: "18.2.0" }]);
+  });
+
+  test("should place a conflicting peer next to a nested package that needs it", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "react": "^18.0.0",
+      "legacy-plugin": "^2.0.0",
+      "plugin-host": "^1.0.0"
+    }, { registry });
+
+    expect(plan).toContainEqual({
+      name: "legacy-plugin",
+      version: "1.0.0",
+      parentDirectory: "plugin-host/node_modules"
+    });
+    expect(plan).toContainEqual({
+      name: "react",
+      version: "17.0.0",
+      parentDirectory: "plugin-host/node_modules"
+    });
+    expect(plan).toContainEqual({ name: "react", version: "18.2.0" });
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test("should report peer dependencies that conflict with the hoisted version", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "react": "^18.0.0",
+      "legacy-plugin": "^1.0.0"
+    }, { registry });
+
+    expect(plan.filter(p => p.name === "react")).toEqual([{ name: "react", version: "18.2.0" }]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "legacy-plugin@1.0.0 (node_modules/legacy-plugin) wants react@^17.0.0, but gets react@18.2.0 (node_modules/react)"
+      )
+    );
+    warn.mockRestore();
+  });
+
+  test("should not install optional peer dependencies", async () => {
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "optional-peer-plugin": "^1.0.0"
+    }, { registry });
+
+    expect(plan).toEqual([{ name: "optional-peer-plugin", version: "1.0.0" }]);
+    expect(registry.getPackument).not.toHaveBeenCalledWith("missing-native");
+  });
+
+  test("should install a package that depends on itself once", async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "self-dependent": "^1.0.0"
+    }, { registry });
+
+    expect(plan).toEqual([{ name: "self-dependent", version: "1.0.0" }]);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("self-dependent@1.0.0 -> self-dependent@1.0.0"));
+    log.mockRestore();
+  });
+
+  test("should install each package in a longer cycle once", async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "cycle-b": "^1.0.0"
+    }, { registry });
+
+    expect(plan).toHaveLength(3);
+    expect(plan).toContainEqual({ name: "cycle-a", version: "1.0.0" });
+    expect(plan).toContainEqual({ name: "cycle-b", version: "1.0.0" });
+    expect(plan).toContainEqual({ name: "cycle-c", version: "1.0.0" });
+    expect(registry.getPackument).toHaveBeenCalledTimes(3);
+    expect(log).toHaveBeenCalledWith(
+      expect.stringContaining("cycle-a@1.0.0 -> cycle-b@1.0.0 -> cycle-c@1.0.0 -> cycle-a@1.0.0")
+    );
+    log.mockRestore();
+  });
+
+  test("should stop nesting a cycle once an ancestor satisfies it", async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    const plan: InstallationPlan = await constructInstallationPlan({
+      "ring-a": "^2.0.0",
+      "ring-b": "^2.0.0",
+      "ring-host": "^1.0.0"
+    }, { registry });
+
+    expect(plan).toHaveLength(5);
+    expect(plan).toContainEqual({ name: "ring-a", version: "2.0.0" });
+    expect(plan).toContainEqual({ name: "ring-b", version: "2.0.0" });
+    expect(plan).toContainEqual({ name: "ring-host", version: "1.0.0" });
+    expect(plan).toContainEqual({
+      name: "ring-a",
+      version: "1.0.0",
+      parentDirectory: "ring-host/node_modules"
+    });
+    expect(plan).toContainEqual({
+      name: "ring-b",
+      version: "1.0.0",
+      parentDirectory: "ring-host/node_modules/ring-a/node_modules"
+    });
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("ring-a@1.0.0 -> ring-b@1.0.0 -> ring-a@1.0.0"));
+    log.mockRestore();
+  });
+
+  describe("hoisting strategies", () => {
+    // Three packages want popular@^1, while two want 2.0.0 through two different ranges
+    const topLevelDependencies = {
+      "popular-user-1": "^1.0.0",
+      "popular-user-2": "^1.0.0",
+      "popular-user-3": "^1.0.0",
+      "modern-user": "^1.0.0",
+      "newest-user": "^1.0.0"
+    };
+
+    test("should hoist the version satisfying the most ranges by default", async () => {
+      const plan = await constructInstallationPlan(topLevelDependencies, { registry });
+
+      expect(plan).toContainEqual({ name: "popular", version: "2.0.0" });
+      expect(plan.filter(dep => dep.name === "popular")).toHaveLength(4);
+    });
+
+    test("should hoist the version that leaves the fewest copies", async () => {
+      const plan = await constructInstallationPlan(topLevelDependencies, { registry, hoisting: fewestCopiesStrategy });
+
+      expect(plan).toContainEqual({ name: "popular", version: "1.0.0" });
+      expect(plan.filter(dep => dep.name === "popular")).toEqual([
+        { name: "popular", version: "1.0.0" },
+        { name: "popular", version: "2.0.0", parentDirectory: "modern-user/node_modules" },
+        { name: "popular", version: "2.0.0", parentDirectory: "newest-user/node_modules" }
+      ]);
+    });
+  });
+
+  test("should reject git dependencies", async () => {
+    await expect(
+      constructInstallationPlan({ "some-repo": "github:user/repo" }, { registry })
+    ).rejects.toThrow("git dependencies are not supported");
+  });
+});
+
+describe("visualizeInstallationTree", () => {
+  test("should draw scoped packages and their nested dependencies", () => {
+    const tree = visualizeInstallationTree([
+      { name: "@scope/app", version: "1.0.0" },
+      { name: "@scope/util", version: "2.0.0" },
+      { name: "@scope/util", version: "1.0.0", parentDirectory: "@scope/app/node_modules" }
+    ]);
+
+    expect(tree).toContain([
+      "node_modules/",
+      "├── @scope/app@1.0.0",
+      "│   └── node_modules",
+      "│       └── @scope/util@1.0.0",
+      "└── @scope/util@2.0.0"
+    ].join("\n"));
+    expect(tree).toContain("Maximum nesting depth: 1");
+  });
+
+  test("should list dependency cycles", () => {
+    const tree = visualizeInstallationTree(
+      [
+        { name: "cycle-a", version: "1.0.0" },
+        { name: "cycle-b", version: "1.0.0" }
+      ],
+      [["cycle-a@1.0.0", "cycle-b@1.0.0"]]
+    );
+
+    expect(tree).toContain("Dependency cycles:\ncycle-a@1.0.0 -> cycle-b@1.0.0 -> cycle-a@1.0.0\n");
+  });
+});
@@ -1,77 +1,334 @@
-import { InstallationPlan, DependencyInstallation } from "../../types";
-import { getPackageMetadata } from "../../util/registry";
+import {
+  InstallationPlan,
+  DependencyInstallation,
+  DependencyGraph,
+  PackageDist,
+  Packument,
+  VersionManifest,
+} from "../../types";
+import { createLimiter, DEFAULT_CONCURRENCY } from "../../util/concurrency";
+import { getExternalLocation, readExternalManifest } from "../../util/external";
+import { getInstallLocation } from "../../util/lockfile";
+import { findVisibleInstallation, indexByLocation } from "../../util/tree";
+import { createRegistryClient, RegistryClient } from "../../util/registry";
+import { isRegistrySpec, parseDependencySpec } from "../../util/packageSpec";
+import { HoistingStrategy, mostRangesStrategy } from "./hoisting";
 import semver from "semver";
 
+// Upper bound on how many times versions are chosen again as nesting costs settle, in case they never do
+const MAX_HOISTING_ROUNDS = 5;
+
+/**
+ * The parts of a packument that planning uses. Versions read from a local path or tarball URL only have what their
+ * package.json says and the location they came from, and are marked `external`.
+ */
 export interface PackageMetadata {
-  versions: Record<string, {
-    dependencies: Record<string, string>;
-  }>;
+  "dist-tags"?: Packument["dist-tags"];
+  versions: Record<string, PlannedVersion>;
+}
+
+type PlannedVersion = Partial<Omit<VersionManifest, "dist">> & {
+  dist?: Partial<PackageDist>;
+  external?: boolean;
+};
+
+export interface InstallationPlanOptions {
+  // Versions recorded in the lockfile, preferred over newer versions whenever they still satisfy a range
+  lockedVersions?: Map<string, Set<string>>;
+  // Maximum number of metadata requests in flight at once
+  concurrency?: number;
+  // Top-level dependencies that come from package.json's devDependencies or optionalDependencies
+  devDependencies?: Set<string>;
+  optionalDependencies?: Set<string>;
+  // Filled in with the ranges that each version in the plan asks for, so callers can keep the graph
+  graph?: DependencyGraph;
+  // Chooses the version of each package that goes at the root (defaults to the one satisfying the most ranges)
+  hoisting?: HoistingStrategy;
+  // Where package metadata comes from (defaults to the registry configured in .npmrc)
+  registry?: RegistryClient;
 }
 
 interface PackageNode {
   name: string;
-  versionRequirements: Set<string>;
+  versionRequirements: Map<string, Set<string>>; // version range -> the packages ("name@version") asking for it
   dependencies: Map<string, Set<string>>; // dependency name -> Set of version ranges
 }
 
 /**
  *
  * @param topLevelDependencies The list of dependencies as determined by package.json's `dependencies` object
+ * @param options Optional resolution hints, such as the versions pinned by an existing lockfile
  * @returns The installation plan
  */
 export async function constructInstallationPlan(
-  topLevelDependencies: Record<string, string>
+  topLevelDependencies: Record<string, string>,
+  options: InstallationPlanOptions = {}
 ): Promise<InstallationPlan> {
-  // Cache for package metadata to avoid duplicate network calls
+  const lockedVersions = options.lockedVersions || new Map<string, Set<string>>();
+  const devDependencies = options.devDependencies || new Set<string>();
+  const optionalDependencies = options.optionalDependencies || new Set<string>();
+  const hoisting = options.hoisting || mostRangesStrategy;
+  const registry = options.registry || createRegistryClient();
+
+  // Optional dependencies ("name@range") that failed to resolve and are left out of the plan
+  const skippedDependencies = new Set<string>();
+
+  // Cache for package metadata to avoid duplicate network calls, keyed by the name packages are installed under
   const metadataCache = new Map<string, PackageMetadata>();
+  const metadataRequests = new Map<string, Promise<PackageMetadata>>();
+  const limitRequests = createLimiter(options.concurrency || DEFAULT_CONCURRENCY);
+
+  // Registry names of packages installed under an alias, and the version each path or URL spec resolved to
+  const packageNames = new Map<string, string>();
+  const externalVersions = new Map<string, string>();
   
   // Package graph for all dependencies
   const packageGraph = new Map<string, PackageNode>();
+
+  // name@range pairs already added to the graph, the name@version path currently being built, and every cycle found
+  // along the way (keyed by its normalized form, so each is reported once)
+  const graphVisited = new Set<string>();
+  const graphPath: string[] = [];
+  const cycles = new Map<string, string[]>();
   
-  // Final installation plan
-  const installationPlan: InstallationPlan = [];
+  // Translate a dependency spec (range, dist-tag, alias, path or URL) into a semver range over the package's versions
+  function toVersionRange(name: string, spec: string): string {
+    const parsed = parseDependencySpec(name, spec);
+    const target = parsed.subSpec || parsed;
+
+    if (target.type === "tag") {
+      const taggedVersion = metadataCache.get(name)?.["dist-tags"]?.[target.fetchSpec];
+      if (!taggedVersion) {
+        throw new Error(`Cannot resolve ${name}@${spec}: there is no "${target.fetchSpec}" tag`);
+      }
+      return taggedVersion;
+    }
+    if (target.type === "file" || target.type === "remote") {
+      return externalVersions.get(`${name}@${spec}`)!;
+    }
+    return target.fetchSpec;
+  }
+
+  function satisfies(name: string, version: string, spec: string): boolean {
+    return semver.satisfies(version, toVersionRange(name, spec));
+  }
+
+  // Pick the highest version satisfying the spec, unless the lockfile already pins one that does
+  function resolveVersion(name: string, versionRange: string): string | null {
+    const metadata = metadataCache.get(name)!;
+    const availableVersions = Object.keys(metadata.versions || {});
+    const locked = [...(lockedVersions.get(name) || [])].filter(v => availableVersions.includes(v));
+    const range = toVersionRange(name, versionRange);
+    return semver.maxSatisfying(locked, range) || semver.maxSatisfying(availableVersions, range);
+  }
+
+  // Create a plan entry, carrying over the tarball location and integrity from the registry metadata
+  function toInstallation(name: string, version: string, parentDirectory?: string): DependencyInstallation {
+    const installation: DependencyInstallation = { name, version };
+    if (parentDirectory) {
+      installation.parentDirectory = parentDirectory;
+    }
+    const versionData = metadataCache.get(name)?.versions[version];
+    if (versionData?.dist?.tarball) {
+      installation.resolved = versionData.dist.tarball;
+    }
+    if (versionData?.dist?.integrity) {
+      installation.integrity = versionData.dist.integrity;
+    }
+    if (packageNames.has(name) && packageNames.get(name) !== name) {
+      installation.packageName = packageNames.get(name);
+    }
+    if (versionData?.external) {
+      installation.external = true;
+    }
+    return installation;
+  }
+  
+  // All dependencies of a version, including its optional ones
+  function getDependencies(name: string, version: string): Record<string, string> {
+    const versionData = metadataCache.get(name)?.versions[version];
+    return { ...versionData?.dependencies, ...versionData?.optionalDependencies };
+  }
+
+  function isOptionalDependency(name: string, version: string, depName: string): boolean {
+    return !!metadataCache.get(name)?.versions[version]?.optionalDependencies?.[depName];
+  }
+
+  // Peer dependencies of a version, leaving out the ones marked optional in peerDependenciesMeta unless asked for
+  function getPeerDependencies(name: string, version: string, includeOptional = false): Record<string, string> {
+    const versionData = metadataCache.get(name)?.versions[version];
+    return Object.fromEntries(
+      Object.entries(versionData?.peerDependencies || {}).filter(
+        ([peerName]) => includeOptional || !versionData?.peerDependenciesMeta?.[peerName]?.optional
+      )
+    );
+  }
+
+  // Fetch metadata (from cache if possible), sharing in-flight requests for the same package, path or URL
+  async function fetchMetadata(name: string, spec: string): Promise<void> {
+    const parsed = parseDependencySpec(name, spec);
+    if (parsed.type === "git") {
+      throw new Error(`Cannot resolve ${name}@${spec}: git dependencies are not supported`);
+    }
+
+    if (isRegistrySpec(parsed)) {
+      const packageName = parsed.subSpec?.name || name;
+      if (packageNames.has(name) && packageNames.get(name) !== packageName) {
+        throw new Error(`Cannot install both ${packageNames.get(name)} and ${packageName} as ${name}`);
+      }
+      packageNames.set(name, packageName);
+
+      if (!metadataRequests.has(packageName)) {
+        metadataRequests.set(packageName, limitRequests(async () => {
+          const metadata = await registry.getPackument(packageName);
+
+          // Only store the versions information we need
+          return {
+            "dist-tags": metadata["dist-tags"] || {},
+            versions: metadata.versions || {}
+          };
+        }));
+      }
+      mergeMetadata(name, await metadataRequests.get(packageName)!);
+      return;
+    }
+
+    // Paths and URLs provide a single version, described by their own package.json
+    const location = getExternalLocation(parsed);
+    if (!metadataRequests.has(location)) {
+      metadataRequests.set(location, limitRequests(async () => {
+        const manifest = await readExternalManifest(location, registry);
+        return {
+          versions: {
+            [manifest.version]: {
+              dependencies: manifest.dependencies || {},
+              optionalDependencies: manifest.optionalDependencies,
+              peerDependencies: manifest.peerDependencies,
+              peerDependenciesMeta: manifest.peerDependenciesMeta,
+              dist: { tarball: location, integrity: manifest.integrity },
+              external: true
+            }
+          }
+        };
+      }));
+    }
+    const metadata = await metadataRequests.get(location)!;
+    externalVersions.set(`${name}@${spec}`, Object.keys(metadata.versions)[0]);
+    mergeMetadata(name, metadata);
+  }
+
+  function mergeMetadata(name: string, metadata: PackageMetadata) {
+    const existing = metadataCache.get(name);
+    metadataCache.set(name, {
+      "dist-tags": { ...existing?.["dist-tags"], ...metadata["dist-tags"] },
+      versions: { ...existing?.versions, ...metadata.versions }
+    });
+  }
+
+  // Walk the tree concurrently to fetch all metadata up front, so that the graph itself can be built in a fixed order
+  // and comes out exactly as it would from a serial run
+  async function prefetchMetadata(): Promise<void> {
+    const visited = new Set<string>();
+
+    async function visit(name: string, versionRange: string, optional: boolean): Promise<void> {
+      const key = `${name}@${versionRange}`;
+      if (visited.has(key)) {
+        return;
+      }
+      visited.add(key);
+
+      // Unresolvable ranges are reported (or skipped, if optional) while building the graph
+      let resolvedVersion: string | null;
+      try {
+        await fetchMetadata(name, versionRange);
+        resolvedVersion = resolveVersion(name, versionRange);
+      } catch (error) {
+        if (optional) {
+          return;
+        }
+        throw error;
+      }
+
+      if (!resolvedVersion) {
+        return;
+      }
+      await Promise.all([
+        ...Object.entries(getDependencies(name, resolvedVersion)).map(([depName, depVersionRange]) =>
+          visit(depName, depVersionRange, isOptionalDependency(name, resolvedVersion!, depName))
+        ),
+        ...Object.entries(getPeerDependencies(name, resolvedVersion)).map(([peerName, peerVersionRange]) =>
+          visit(peerName, peerVersionRange, false)
+        )
+      ]);
+    }
+
+    await Promise.all(
+      Object.entries(topLevelDependencies).map(([name, versionRange]) =>
+        visit(name, versionRange, optionalDependencies.has(name))
+      )
+    );
+  }
   
-  // Fetch metadata and build the complete package graph
+  // Fetch metadata and build the complete package graph, returning false if an optional dependency was skipped
   async function buildDependencyGraph(
     name: string,
     versionRange: string,
-    parentPackage?: string
-  ): Promise<void> {
+    parentPackage?: string,
+    optional: boolean = false
+  ): Promise<boolean> {
     console.log(`Building graph node for ${name}@${versionRange}`);
+
+    // Optional dependencies that can't be resolved are skipped rather than failing the install
+    try {
+      await fetchMetadata(name, versionRange);
+      if (!resolveVersion(name, versionRange)) {
+        throw new Error(`Cannot resolve ${name}@${versionRange}`);
+      }
+    } catch (error) {
+      if (!optional) {
+        throw error;
+      }
+      console.warn(`Skipping optional dependency ${name}@${versionRange}: ${(error as Error).message}`);
+      skippedDependencies.add(`${name}@${versionRange}`);
+      return false;
+    }
+
     // Create or update package node
     if (!packageGraph.has(name)) {
       packageGraph.set(name, {
         name,
-        versionRequirements: new Set(),
+        versionRequirements: new Map(),
         dependencies: new Map()
       });
     }
     
     const packageNode = packageGraph.get(name)!;
-    packageNode.versionRequirements.add(versionRange);
-    
-    // Fetch metadata (from cache if possible)
-    if (!metadataCache.has(name)) {
-      // console.log('cache miss');
-      const metadata = await getPackageMetadata(name);
-
-      // Only store the versions information we need
-      metadataCache.set(name, {
-        versions: metadata.versions || {}
-      });
-    } else {
-      // console.log('cache hit');
+    if (!packageNode.versionRequirements.has(versionRange)) {
+      packageNode.versionRequirements.set(versionRange, new Set());
     }
+    packageNode.versionRequirements.get(versionRange)!.add(parentPackage || "package.json");
     
     const metadata = metadataCache.get(name)!;
-    const availableVersions = Object.keys(metadata.versions || {});
     
     // Resolve version
-    const resolvedVersion = semver.maxSatisfying(availableVersions, versionRange);
+    const resolvedVersion = resolveVersion(name, versionRange);
     
     if (!resolvedVersion) {
       throw new Error(`Cannot resolve ${name}@${versionRange}`);
     }
+
+    // Stop at versions that are already on the current path (a cycle) or whose dependencies were already added
+    const label = `${name}@${resolvedVersion}`;
+    const cycleStart = graphPath.indexOf(label);
+    if (cycleStart !== -1) {
+      recordCycle(graphPath.slice(cycleStart));
+      return true;
+    }
+    if (graphVisited.has(`${name}@${versionRange}`)) {
+      return true;
+    }
+    graphVisited.add(`${name}@${versionRange}`);
+    graphPath.push(label);
     
     // Get dependencies for this version
     const packageJson = metadata.versions[resolvedVersion];
@@ -79,65 +336,128 @@ export async function constructInstallationPlan(
       throw new Error(`Version data for ${name}@${resolvedVersion} not found`);
     }
     
-    const dependencies = packageJson.dependencies || {};
+    const dependencies = getDependencies(name, resolvedVersion);
     
     // Add dependencies to this package node
     for (const [depName, depVersionRange] of Object.entries(dependencies)) {
+      // Process each dependency
+      const optionalDependency = isOptionalDependency(name, resolvedVersion, depName);
+      if (!(await buildDependencyGraph(depName, depVersionRange, label, optionalDependency))) {
+        continue;
+      }
+
       if (!packageNode.dependencies.has(depName)) {
         packageNode.dependencies.set(depName, new Set());
       }
-      packageNode.dependencies.get(depName)!.add(depVersionRange as string);
-      
-      // Process each dependency
-      await buildDependencyGraph(depName, depVersionRange as string, name);
+      packageNode.dependencies.get(depName)!.add(depVersionRange);
+    }
+
+    // Peers count towards choosing the peer's version, but aren't edges: they're placed next to this package, not in it
+    for (const [peerName, peerVersionRange] of Object.entries(getPeerDependencies(name, resolvedVersion))) {
+      await buildDependencyGraph(peerName, peerVersionRange, label);
     }
+
+    graphPath.pop();
+    return true;
+  }
+
+  // Rotate a cycle so it starts at its alphabetically first package, so the same cycle found from elsewhere matches
+  function recordCycle(cycle: string[]) {
+    const start = cycle.indexOf([...cycle].sort()[0]);
+    const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+    cycles.set(normalized.join(" -> "), normalized);
   }
   
-  // Determine optimal version for each package
-  function findOptimalVersion(name: string): string {
+  // Let the hoisting strategy choose the root version of a package, given every range asked for and the versions
+  // chosen so far for everything else
+  function findOptimalVersion(name: string, chosen: Map<string, string>): string {
     const packageNode = packageGraph.get(name)!;
-    const metadata = metadataCache.get(name)!;
-    const availableVersions = Object.keys(metadata.versions || {});
-    
-    // For each available version, count how many ranges it satisfies
-    const versionSatisfactionCount = new Map<string, number>();
-    
-    for (const version of availableVersions) {
-      let satisfiedCount = 0;
-      
-      for (const range of packageNode.versionRequirements) {
-        if (semver.satisfies(version, range)) {
-          satisfiedCount++;
+    const nestingCosts = new Map<string, number>();
+
+    return hoisting.chooseVersion({
+      name,
+      versions: Object.keys(metadataCache.get(name)!.versions || {}),
+      requirements: [...packageNode.versionRequirements].map(([versionRange, dependents]) => ({
+        range: toVersionRange(name, versionRange),
+        dependents: dependents.size,
+        resolved: resolveVersion(name, versionRange)!,
+      })),
+      lockedVersions: new Set(lockedVersions.get(name) || []),
+      nestingCost(version) {
+        if (!nestingCosts.has(version)) {
+          const nestedDependencies = Object.entries(getDependencies(name, version)).filter(
+            ([depName, depVersionRange]) =>
+              !skippedDependencies.has(`${depName}@${depVersionRange}`) &&
+              chosen.has(depName) &&
+              !satisfies(depName, chosen.get(depName)!, depVersionRange)
+          );
+          nestingCosts.set(version, 1 + nestedDependencies.length);
         }
+        return nestingCosts.get(version)!;
+      },
+    });
+  }
+
+  // Choosing one package's version changes the cost of nesting its dependents, so choose again until nothing changes
+  function findOptimalVersions(): Map<string, string> {
+    let optimalVersions = new Map<string, string>();
+    for (let round = 0; round < MAX_HOISTING_ROUNDS; round++) {
+      const chosen = optimalVersions;
+      optimalVersions = new Map([...packageGraph.keys()].map(name => [name, findOptimalVersion(name, chosen)]));
+      if ([...optimalVersions].every(([name, version]) => chosen.get(name) === version)) {
+        break;
       }
-      
-      versionSatisfactionCount.set(version, satisfiedCount);
     }
-    
-    // Find version that satisfies most ranges (prefer higher versions if tied)
-    let bestVersion = '';
-    let maxSatisfied = 0;
-    
-    for (const [version, count] of versionSatisfactionCount.entries()) {
-      if (count > maxSatisfied || 
-          (count === maxSatisfied && bestVersion && semver.gt(version, bestVersion))) {
-        maxSatisfied = count;
-        bestVersion = version;
+    return optimalVersions;
+  }
+
+  // Add the dependencies and peers of the given versions to the graph, returning true if anything new was added
+  async function addMissingDependencies(versions: Map<string, string>): Promise<boolean> {
+    let added = false;
+    for (const [name, version] of versions) {
+      const dependencies = { ...getDependencies(name, version), ...getPeerDependencies(name, version) };
+      for (const [depName, depVersionRange] of Object.entries(dependencies)) {
+        const key = `${depName}@${depVersionRange}`;
+        if (graphVisited.has(key) || skippedDependencies.has(key)) {
+          continue;
+        }
+        await buildDependencyGraph(
+          depName,
+          depVersionRange,
+          `${name}@${version}`,
+          isOptionalDependency(name, version, depName)
+        );
+        added = true;
       }
     }
-    
-    if (!bestVersion) {
-      throw new Error(`Could not find optimal version for ${name}`);
-    }
-    
-    return bestVersion;
+    return added;
   }
   
   // Build installation plan
   async function buildInstallationPlan(optimalVersions: Map<string, string>): Promise<InstallationPlan> {
     const rootPackages = new Map<string, string>();
     const plan: InstallationPlan = [];
-    
+    // The version each top-level dependency will be installed at. Their root slots are reserved up front, so that a
+    // transitive dependency reached first can't take the slot with a version package.json doesn't allow.
+    const reservedRootVersions = new Map<string, string>();
+    const installed = new Map<string, DependencyInstallation>();
+
+    function install(dep: DependencyInstallation) {
+      plan.push(dep);
+      installed.set(getInstallLocation(dep), dep);
+    }
+
+    // True if name@version is installed at or above parentPath, where nesting it again would repeat forever
+    function isInstalledAbove(name: string, version: string, parentPath?: string): boolean {
+      if (!parentPath) {
+        return false;
+      }
+      const segments = parentPath.replace(/\/node_modules$/, "").split("/node_modules/");
+      return segments.some((_, i) => {
+        const ancestor = installed.get(`node_modules/${segments.slice(0, i + 1).join("/node_modules/")}`);
+        return ancestor?.name === name && ancestor.version === version;
+      });
+    }
     
     // Process function to create installation plan
     function processDependency(
@@ -145,8 +465,20 @@ export async function constructInstallationPlan(
       versionRange: string,
       parentPath?: string
     ): void {
+      if (skippedDependencies.has(`${name}@${versionRange}`)) {
+        return;
+      }
+
+      // A satisfying copy that is already visible from the dependent, such as one of its ancestors when the
+      // dependencies form a cycle, is used rather than installed again
+      const dependent = parentPath && installed.get(`node_modules/${parentPath.replace(/\/node_modules$/, "")}`);
+      const visible = findVisibleInstallation(installed, name, dependent || undefined);
+      if (visible && satisfies(name, visible.version, versionRange)) {
+        return;
+      }
+
       const optimalVersion = optimalVersions.get(name)!;
-      const satisfiesRange = semver.satisfies(optimalVersion, versionRange);
+      const satisfiesRange = satisfies(name, optimalVersion, versionRange);
       
       if (satisfiesRange) {
         const version = optimalVersion;
@@ -156,29 +488,27 @@ export async function constructInstallationPlan(
           return;
         }
         
-        // Check if we have a conflict at root
-        const isConflict = rootPackages.has(name) && rootPackages.get(name) !== version;
+        // Check if we have a conflict at root, or the root is kept for another version that package.json asks for
+        const reservedVersion = parentPath ? reservedRootVersions.get(name) : undefined;
+        const isConflict = (rootPackages.has(name) && rootPackages.get(name) !== version) ||
+          (reservedVersion !== undefined && reservedVersion !== version);
         
         if (!isConflict) {
           // Can install at root
           rootPackages.set(name, version);
-          plan.push({ name, version });
+          install(toInstallation(name, version));
+        } else if (isInstalledAbove(name, version, parentPath)) {
+          return;
         } else {
           // Conflict, install nested
-          plan.push({
-            name,
-            version,
-            parentDirectory: parentPath
-          });
+          install(toInstallation(name, version, parentPath));
         }
         
-        // Process dependencies
-        const packageNode = packageGraph.get(name)!;
-        for (const [depName, depVersionRanges] of packageNode.dependencies.entries()) {
-          const depVersionRange = [...depVersionRanges][0];
-          
-          const newParentPath = isConflict || parentPath 
-            ? `${parentPath || ''}${parentPath ? '/' : ''}${name}/node_modules` 
+        // Process dependencies of the version that was chosen, not every version the graph resolved this name to
+        for (const [depName, depVersionRange] of Object.entries(getDependencies(name, version))) {
+          // Nested under wherever this package itself went, which is the root unless there was a conflict
+          const newParentPath = isConflict && parentPath
+            ? `${parentPath}/${name}/node_modules`
             : `${name}/node_modules`;
             
           processDependency(depName, depVersionRange, newParentPath);
@@ -186,25 +516,27 @@ export async function constructInstallationPlan(
       } else {
         // Optimal version doesn't satisfy this range, need to use specific version
         const metadata = metadataCache.get(name)!;
-        const availableVersions = Object.keys(metadata.versions || {});
         
         // Resolve to best version for this specific range
-        const version = semver.maxSatisfying(availableVersions, versionRange);
+        const version = resolveVersion(name, versionRange);
         
         if (!version) {
           throw new Error(`Cannot resolve ${name}@${versionRange}`);
         }
         
-        // Always install nested since this is a specific version requirement
-        plan.push({
-          name,
-          version,
-          parentDirectory: parentPath
-        });
+        if (isInstalledAbove(name, version, parentPath)) {
+          return;
+        }
+
+        // Always install nested since this is a specific version requirement, unless it is a top-level dependency,
+        // whose root slot was reserved for it
+        if (!parentPath) {
+          rootPackages.set(name, version);
+        }
+        install(toInstallation(name, version, parentPath));
         
         // Process dependencies
-        const packageJson = metadata.versions[version];
-        const dependencies = packageJson.dependencies || {};
+        const dependencies = getDependencies(name, version);
         
         for (const [depName, depVersionRange] of Object.entries(dependencies)) {
           const newParentPath = `${parentPath || ''}${parentPath ? '/' : ''}${name}/node_modules`;
@@ -213,31 +545,172 @@ export async function constructInstallationPlan(
       }
     }
     
+    // Install a peer in `directory` (the node_modules folder of the package that needs it), unless that spot is taken
+    function placePeer(name: string, versionRange: string, directory?: string): boolean {
+      const optimalVersion = optimalVersions.get(name)!;
+      const version = satisfies(name, optimalVersion, versionRange)
+        ? optimalVersion
+        : resolveVersion(name, versionRange);
+      if (!version) {
+        throw new Error(`Cannot resolve ${name}@${versionRange}`);
+      }
+
+      const peer = toInstallation(name, version, directory);
+      if (installed.has(getInstallLocation(peer))) {
+        return false;
+      }
+      install(peer);
+      if (!directory) {
+        rootPackages.set(name, version);
+      }
+
+      for (const [depName, depVersionRange] of Object.entries(getDependencies(name, version))) {
+        processDependency(depName, depVersionRange, `${directory ? `${directory}/` : ''}${name}/node_modules`);
+      }
+      return true;
+    }
+
+    // Make sure every package can see a copy of each of its peers that satisfies the peer range. A missing peer can
+    // always go at the root, since nothing on the package's lookup path has that name; a conflicting one goes next to
+    // the package if there's room. Optional peers are only checked, never installed.
+    function placePeerDependencies() {
+      const conflicts: string[] = [];
+
+      // The plan grows as peers and their dependencies are added, and those may have peers of their own
+      for (let i = 0; i < plan.length; i++) {
+        const dependent = plan[i];
+        const requiredPeers = getPeerDependencies(dependent.name, dependent.version);
+
+        for (const [peerName, peerVersionRange] of Object.entries(
+          getPeerDependencies(dependent.name, dependent.version, true)
+        )) {
+          let peer = findVisibleInstallation(installed, peerName, dependent);
+          if (!peer && !requiredPeers[peerName]) {
+            continue;
+          }
+          if (
+            (!peer || !satisfies(peerName, peer.version, peerVersionRange)) &&
+            requiredPeers[peerName] &&
+            placePeer(peerName, peerVersionRange, dependent.parentDirectory)
+          ) {
+            peer = findVisibleInstallation(installed, peerName, dependent);
+          }
+
+          if (peer && !satisfies(peerName, peer.version, peerVersionRange)) {
+            conflicts.push(
+              `  ${dependent.name}@${dependent.version} (${getInstallLocation(dependent)}) wants ` +
+              `${peerName}@${peerVersionRange}, but gets ${peer.name}@${peer.version} (${getInstallLocation(peer)})`
+            );
+          }
+        }
+      }
+
+      if (conflicts.length > 0) {
+        console.warn(`Peer dependency conflicts:\n${conflicts.join("\n")}`);
+      }
+    }
+
     // Start with top-level dependencies
+    for (const [name, versionRange] of Object.entries(topLevelDependencies)) {
+      if (skippedDependencies.has(`${name}@${versionRange}`)) {
+        continue;
+      }
+      const optimalVersion = optimalVersions.get(name)!;
+      const version = satisfies(name, optimalVersion, versionRange)
+        ? optimalVersion
+        : resolveVersion(name, versionRange);
+      if (version) {
+        reservedRootVersions.set(name, version);
+      }
+    }
     for (const [name, versionRange] of Object.entries(topLevelDependencies)) {
       processDependency(name, versionRange);
     }
+    placePeerDependencies();
     
     return plan;
   }
   
+  // Flag entries that are only needed by devDependencies, or only through optional dependencies, by following each
+  // dependency to the copy it resolves to from where its dependent is installed
+  function markDevAndOptional(plan: InstallationPlan) {
+    const installed = indexByLocation(plan);
+
+    function walk(roots: [string, boolean][], followOptional: boolean): Set<DependencyInstallation> {
+      const reached = new Set<DependencyInstallation>();
+      const queue: DependencyInstallation[] = [];
+      function reach(dep: DependencyInstallation | undefined) {
+        if (dep && !reached.has(dep)) {
+          reached.add(dep);
+          queue.push(dep);
+        }
+      }
+
+      for (const [name, follow] of roots) {
+        if (follow) {
+          reach(findVisibleInstallation(installed, name));
+        }
+      }
+      while (queue.length > 0) {
+        const dep = queue.shift()!;
+        for (const depName of Object.keys(getDependencies(dep.name, dep.version))) {
+          if (followOptional || !isOptionalDependency(dep.name, dep.version, depName)) {
+            reach(findVisibleInstallation(installed, depName, dep));
+          }
+        }
+        for (const peerName of Object.keys(getPeerDependencies(dep.name, dep.version))) {
+          reach(findVisibleInstallation(installed, peerName, dep));
+        }
+      }
+      return reached;
+    }
+
+    const topLevelNames = Object.keys(topLevelDependencies);
+    const production = walk(topLevelNames.map(name => [name, !devDependencies.has(name)]), true);
+    const required = walk(topLevelNames.map(name => [name, !optionalDependencies.has(name)]), false);
+
+    for (const dep of plan) {
+      if (!production.has(dep)) {
+        dep.dev = true;
+      }
+      if (!required.has(dep)) {
+        dep.optional = true;
+      }
+    }
+  }
+  
   // Main execution flow
   try {
+    await prefetchMetadata();
+
     // Build complete dependency graph (with single traversal)
     for (const [name, versionRange] of Object.entries(topLevelDependencies)) {
-      await buildDependencyGraph(name, versionRange);
+      await buildDependencyGraph(name, versionRange, undefined, optionalDependencies.has(name));
     }
     
     // Calculate optimal versions
-    const optimalVersions = new Map<string, string>();
-    for (const [name, packageNode] of packageGraph.entries()) {
-      optimalVersions.set(name, findOptimalVersion(name));
+    let optimalVersions = findOptimalVersions();
+    
+    // An optimal version that no single range resolved to may have dependencies that aren't in the graph yet
+    while (await addMissingDependencies(optimalVersions)) {
+      optimalVersions = findOptimalVersions();
     }
     
     const plan = await buildInstallationPlan(optimalVersions);
+    markDevAndOptional(plan);
+
+    for (const dep of plan) {
+      const versionData = metadataCache.get(dep.name)!.versions[dep.version];
+      options.graph?.set(`${dep.name}@${dep.version}`, {
+        dependencies: versionData.dependencies,
+        optionalDependencies: versionData.optionalDependencies,
+        peerDependencies: versionData.peerDependencies,
+        peerDependenciesMeta: versionData.peerDependenciesMeta
+      });
+    }
 
     // Visualize the installation tree
-    console.log(visualizeInstallationTree(plan));
+    console.log(visualizeInstallationTree(plan, [...cycles.values()]));
 
     return plan;
   } catch (error) {
@@ -247,7 +720,62 @@ export async function constructInstallationPlan(
 }
 
 
-function visualizeInstallationTree(installationPlan: InstallationPlan): string {
+/**
+ * total: every package in the plan
+ * root, nested: how many are installed at the root of node_modules, and how many inside other packages
+ * maxNestingDepth: the most node_modules folders any package is inside of, beyond the root one
+ * flatteningEfficiency: the share of packages installed at the root, as a percentage
+ */
+export interface InstallationStatistics {
+  total: number;
+  root: number;
+  nested: number;
+  maxNestingDepth: number;
+  flatteningEfficiency: number;
+}
+
+export function getInstallationStatistics(installationPlan: InstallationPlan): InstallationStatistics {
+  const root = installationPlan.filter(item => !item.parentDirectory).length;
+  const maxNestingDepth = Math.max(
+    0,
+    ...installationPlan.map(item =>
+      (item.parentDirectory || "").split("/").filter(p => p === "node_modules").length
+    )
+  );
+  return {
+    total: installationPlan.length,
+    root,
+    nested: installationPlan.length - root,
+    maxNestingDepth,
+    flatteningEfficiency: installationPlan.length === 0 ? 100 : Math.round((root / installationPlan.length) * 100),
+  };
+}
+
+/**
+ * Formats the statistics one per line, as "previous -> current" when there's an earlier plan to compare with
+ */
+export function formatInstallationStatistics(
+  statistics: InstallationStatistics,
+  previous?: InstallationStatistics
+): string {
+  const lines: [string, keyof InstallationStatistics, string][] = [
+    ["Total packages", "total", ""],
+    ["Root packages", "root", ""],
+    ["Nested packages", "nested", ""],
+    ["Maximum nesting depth", "maxNestingDepth", ""],
+    ["Flattening efficiency", "flatteningEfficiency", "%"],
+  ];
+  return lines
+    .map(([label, key, unit]) =>
+      `${label}: ${previous ? `${previous[key]}${unit} -> ` : ""}${statistics[key]}${unit}`
+    )
+    .join("\n");
+}
+
+export function visualizeInstallationTree(
+  installationPlan: InstallationPlan,
+  cycles: string[][] = []
+): string {
   let output = "Installation Tree Structure\n";
   output += "==========================\n\n";
   output += "node_modules/\n";
@@ -315,21 +843,14 @@ function visualizeInstallationTree(installationPlan: InstallationPlan): string {
   // Print root level packages
   output += printTree(rootPackages, "", "");
   
-  // Add some statistics
-  const rootCount = rootPackages.length;
-  const nestedCount = installationPlan.length - rootCount;
-  const maxNestingLevel = Math.max(
-    0,
-    ...Array.from(nestedPackages.keys())
-      .map(path => path.split('/').filter(p => p === 'node_modules').length)
-  );
-  
-  output += "\nInstallation Statistics:\n";
-  output += `Total packages: ${installationPlan.length}\n`;
-  output += `Root packages: ${rootCount}\n`;
-  output += `Nested packages: ${nestedCount}\n`;
-  output += `Maximum nesting depth: ${maxNestingLevel}\n`;
-  output += `Flattening efficiency: ${Math.round((rootCount / installationPlan.length) * 100)}%\n`;
+  output += `\nInstallation Statistics:\n${formatInstallationStatistics(getInstallationStatistics(installationPlan))}\n`;
+
+  if (cycles.length > 0) {
+    output += "\nDependency cycles:\n";
+    for (const cycle of cycles) {
+      output += `${[...cycle, cycle[0]].join(" -> ")}\n`;
+    }
+  }
   
   return output;
 }
\ No newline at end of file
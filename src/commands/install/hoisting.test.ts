@@ -0,0 +1,59 @@
+import { fewestCopiesStrategy, getHoistingStrategy, HoistingCandidates, mostRangesStrategy } from "./hoisting";
+
+function candidates(overrides: Partial<HoistingCandidates> = {}): HoistingCandidates {
+  return {
+    name: "pkg",
+    versions: ["1.0.0", "1.1.0", "2.0.0"],
+    requirements: [
+      { range: "^1.0.0", dependents: 4, resolved: "1.1.0" },
+      { range: "^2.0.0", dependents: 1, resolved: "2.0.0" },
+      { range: ">=1.5.0", dependents: 1, resolved: "2.0.0" },
+    ],
+    lockedVersions: new Set(),
+    nestingCost: () => 1,
+    ...overrides,
+  };
+}
+
+describe("hoisting strategies", () => {
+  it("hoists the version satisfying the most ranges, preferring locked versions when tied", () => {
+    expect(mostRangesStrategy.chooseVersion(candidates())).toBe("2.0.0");
+    expect(
+      mostRangesStrategy.chooseVersion(
+        candidates({
+          requirements: [{ range: "^1.0.0", dependents: 1, resolved: "1.1.0" }],
+          lockedVersions: new Set(["1.0.0"]),
+        })
+      )
+    ).toBe("1.0.0");
+  });
+
+  it("hoists the version that leaves the fewest copies, counting dependents and what nested copies bring", () => {
+    expect(fewestCopiesStrategy.chooseVersion(candidates())).toBe("1.1.0");
+
+    // Nesting 2.0.0 would also nest three of its dependencies, so it is cheaper to hoist it and nest 1.1.0 instead,
+    // even though more packages ask for 1.1.0
+    expect(
+      fewestCopiesStrategy.chooseVersion(
+        candidates({
+          requirements: [
+            { range: "^1.0.0", dependents: 3, resolved: "1.1.0" },
+            { range: "^2.0.0", dependents: 2, resolved: "2.0.0" },
+          ],
+          nestingCost: (version) => (version === "2.0.0" ? 4 : 1),
+        })
+      )
+    ).toBe("2.0.0");
+  });
+
+  it("fails when no version satisfies any range", () => {
+    const unsatisfiable = candidates({ requirements: [{ range: "^3.0.0", dependents: 1, resolved: "3.0.0" }] });
+    expect(() => mostRangesStrategy.chooseVersion(unsatisfiable)).toThrow("Could not find optimal version for pkg");
+    expect(() => fewestCopiesStrategy.chooseVersion(unsatisfiable)).toThrow("Could not find optimal version for pkg");
+  });
+
+  it("looks strategies up by name", () => {
+    expect(getHoistingStrategy("fewest-copies")).toBe(fewestCopiesStrategy);
+    expect(() => getHoistingStrategy("random")).toThrow("Unknown hoisting strategy random");
+  });
+});
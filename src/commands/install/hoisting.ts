@@ -0,0 +1,98 @@
+import semver from "semver";
+
+/**
+ * What a hoisting strategy gets to know about one package
+ *
+ * name: the name the package is installed under
+ * versions: every available version
+ * requirements: each range that was asked for, with how many packages ask for it and the version it resolves to on
+ * its own (which is what a nested copy for it would be)
+ * lockedVersions: the versions recorded in the lockfile
+ * nestingCost: how many packages a nested copy of the version adds: itself, plus its dependencies that the versions
+ * chosen so far don't satisfy, which have to be nested along with it
+ */
+export interface HoistingCandidates {
+  name: string;
+  versions: string[];
+  requirements: { range: string; dependents: number; resolved: string }[];
+  lockedVersions: Set<string>;
+  nestingCost(version: string): number;
+}
+
+/**
+ * Chooses the version of each package that goes at the root of node_modules. Ranges that it doesn't satisfy get a
+ * nested copy of their own.
+ */
+export interface HoistingStrategy {
+  chooseVersion(candidates: HoistingCandidates): string;
+}
+
+// Orders equally good versions: locked versions first, then the highest
+function preferLockedThenHighest(lockedVersions: Set<string>) {
+  return (a: string, b: string) =>
+    Number(lockedVersions.has(b)) - Number(lockedVersions.has(a)) || semver.rcompare(a, b);
+}
+
+/**
+ * Hoists the version that satisfies the most distinct ranges, regardless of how many packages ask for each of them
+ */
+export const mostRangesStrategy: HoistingStrategy = {
+  chooseVersion({ name, versions, requirements, lockedVersions }) {
+    const satisfiedCounts = new Map(
+      versions.map((version) => [
+        version,
+        requirements.filter(({ range }) => semver.satisfies(version, range)).length,
+      ])
+    );
+    const maxSatisfied = Math.max(0, ...satisfiedCounts.values());
+    if (maxSatisfied === 0) {
+      throw new Error(`Could not find optimal version for ${name}`);
+    }
+    return versions
+      .filter((version) => satisfiedCounts.get(version) === maxSatisfied)
+      .sort(preferLockedThenHighest(lockedVersions))[0];
+  },
+};
+
+/**
+ * Hoists the version that leaves the fewest packages to install: every package asking for a range the root copy
+ * doesn't satisfy gets its own nested copy, along with whatever that copy has to nest in turn
+ */
+export const fewestCopiesStrategy: HoistingStrategy = {
+  chooseVersion({ name, versions, requirements, lockedVersions, nestingCost }) {
+    const costs = new Map<string, number>();
+    for (const version of versions) {
+      const unsatisfied = requirements.filter(({ range }) => !semver.satisfies(version, range));
+      // A root copy that nothing asks for would be wasted
+      if (unsatisfied.length === requirements.length) {
+        continue;
+      }
+      costs.set(
+        version,
+        unsatisfied.reduce((total, { dependents, resolved }) => total + dependents * nestingCost(resolved), 0)
+      );
+    }
+    if (costs.size === 0) {
+      throw new Error(`Could not find optimal version for ${name}`);
+    }
+    const lowestCost = Math.min(...costs.values());
+    return [...costs.keys()]
+      .filter((version) => costs.get(version) === lowestCost)
+      .sort(preferLockedThenHighest(lockedVersions))[0];
+  },
+};
+
+export const HOISTING_STRATEGIES: Record<string, HoistingStrategy> = {
+  "most-ranges": mostRangesStrategy,
+  "fewest-copies": fewestCopiesStrategy,
+};
+
+export function getHoistingStrategy(name: string): HoistingStrategy {
+  const strategy = HOISTING_STRATEGIES[name];
+  if (!strategy) {
+    throw new Error(
+      `Unknown hoisting strategy ${name} (expected one of ${Object.keys(HOISTING_STRATEGIES).join(", ")})`
+    );
+  }
+  return strategy;
+}
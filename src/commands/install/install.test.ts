@@ -1,7 +1,12 @@
 import fs from "fs";
 import path from "path";
 import { DEFAULT_PACKAGE_JSON } from "../../util/packageJson";
-import { nodeModulesPath, outputDir, packageJsonPath } from "../../util/paths";
+import {
+  nodeModulesPath,
+  outputDir,
+  packageJsonPath,
+  packageLockJsonPath,
+} from "../../util/paths";
 import { installAllDependencies } from "./install";
 
 describe("npm install function", () => {
@@ -34,5 +39,43 @@ describe("npm install function", () => {
       fs.readFileSync(path.join(p, "package.json"), "utf8")
     );
     expect(isThirteenPackageJson.version).toBe("2.0.0");
+
+    // Check that the resolved tree was written to the lockfile
+    const lockfile = JSON.parse(fs.readFileSync(packageLockJsonPath, "utf8"));
+    expect(lockfile.requires).toEqual({ "is-thirteen": "2.0.0" });
+    expect(lockfile.packages["node_modules/is-thirteen"]).toMatchObject({
+      name: "is-thirteen",
+      version: "2.0.0",
+      resolved: "https://registry.npmjs.org/is-thirteen/-/is-thirteen-2.0.0.tgz",
+    });
+  });
+
+  it("should only change what differs from the plan on a second install", async () => {
+    const isThirteenPath = path.join(nodeModulesPath, "is-thirteen");
+    const markerPath = path.join(isThirteenPath, "untouched");
+    const leftoverPath = path.join(nodeModulesPath, "left-over");
+    fs.writeFileSync(markerPath, "");
+    fs.mkdirSync(leftoverPath, { recursive: true });
+    fs.writeFileSync(
+      path.join(leftoverPath, "package.json"),
+      JSON.stringify({ name: "left-over", version: "1.0.0" })
+    );
+
+    await installAllDependencies();
+
+    // is-thirteen was kept as it was, and the package that isn't in the plan was removed
+    expect(fs.existsSync(markerPath)).toBe(true);
+    expect(fs.existsSync(leftoverPath)).toBe(false);
+  });
+
+  it("should keep an isolated layout on later installs", async () => {
+    const isThirteenPath = path.join(nodeModulesPath, "is-thirteen");
+    await installAllDependencies({ layout: "isolated" });
+    expect(fs.lstatSync(isThirteenPath).isSymbolicLink()).toBe(true);
+
+    await installAllDependencies();
+    expect(fs.lstatSync(isThirteenPath).isSymbolicLink()).toBe(true);
+
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
   });
 });
@@ -1,20 +1,88 @@
 import fs from "fs";
-import { installPackages } from "../../util/download";
-import { DEFAULT_PACKAGE_JSON } from "../../util/packageJson";
-import { nodeModulesPath, packageJsonPath } from "../../util/paths";
+import { DependencyGraph, InstallationPlan } from "../../types";
+import { getCacheMode } from "../../util/cache";
+import {
+  createLockfile,
+  getDependencyGraph,
+  getLockedVersions,
+  isLockfileInSync,
+  lockfileToPlan,
+  readLockfile,
+  writeLockfile,
+} from "../../util/lockfile";
+import {
+  DEFAULT_PACKAGE_JSON,
+  getTopLevelDependencies,
+} from "../../util/packageJson";
+import { syncIsolatedNodeModules } from "../../util/isolated";
+import { NodeModulesSync, syncNodeModules } from "../../util/nodeModules";
+import { loadNpmConfig } from "../../util/npmrc";
+import { outputDir, packageJsonPath, storePath } from "../../util/paths";
+import { createRegistryClient } from "../../util/registry";
+import { runInstallScripts, runScript } from "../../util/scripts";
+import { getHoistingStrategy } from "./hoisting";
 import { constructInstallationPlan } from "./TODO";
 
+/**
+ * concurrency: the maximum number of metadata requests and package downloads in flight at once
+ * production: skip packages that are only needed by devDependencies
+ * unlock: package names whose locked versions are ignored, so that they resolve to the newest versions their ranges allow
+ * ignoreLockfile: resolve everything afresh, as if there were no lockfile
+ * replan: construct a new plan even when the lockfile is in sync, still preferring the locked versions
+ * hoisting: the name of the strategy that chooses which versions go at the root of node_modules when planning
+ * layout: "hoisted" to install the plan as it is, or "isolated" to store each version once and link every package to
+ * only its own dependencies (defaults to .npmrc's node-linker, then to the layout node_modules already has)
+ * ignoreScripts: don't run lifecycle scripts (defaults to .npmrc's ignore-scripts)
+ * allowScripts: only run the install scripts of these dependencies
+ * offline: only use cached metadata and tarballs, failing for anything that isn't cached (defaults to .npmrc's offline)
+ * preferOffline: use cached metadata and tarballs without checking them with the registry, fetching only what isn't
+ * cached (defaults to .npmrc's prefer-offline)
+ */
+export interface InstallOptions {
+  concurrency?: number;
+  production?: boolean;
+  unlock?: string[];
+  ignoreLockfile?: boolean;
+  replan?: boolean;
+  hoisting?: string;
+  layout?: string;
+  ignoreScripts?: boolean;
+  allowScripts?: string[];
+  offline?: boolean;
+  preferOffline?: boolean;
+}
+
+export const LAYOUTS = ["hoisted", "isolated"] as const;
+
+export type Layout = (typeof LAYOUTS)[number];
+
+function getLayout(options: InstallOptions, settings: Record<string, string>): Layout {
+  const layout = options.layout ?? settings["node-linker"] ?? (fs.existsSync(storePath) ? "isolated" : "hoisted");
+  if (!LAYOUTS.includes(layout as Layout)) {
+    throw new Error(`Unknown layout ${layout} (expected one of ${LAYOUTS.join(", ")})`);
+  }
+  return layout as Layout;
+}
+
 /**
  * This is the function that is called when the `install` CLI command is run
  */
-export async function installAllDependencies() {
+export async function installAllDependencies(options: InstallOptions = {}) {
   console.log("Installing dependencies...");
+  await syncDependencies(options);
+}
 
-  // Delete the node_modules folder if it exists - it is assumed that we always install from scratch
-  if (fs.existsSync(nodeModulesPath)) {
-    fs.rmSync(nodeModulesPath, { recursive: true });
-  }
-  fs.mkdirSync(nodeModulesPath);
+/**
+ * Resolves package.json into an installation plan and brings node_modules and the lockfile in line with it, resolving
+ * to what changed in node_modules
+ */
+export async function syncDependencies(
+  options: InstallOptions = {}
+): Promise<NodeModulesSync> {
+  const settings = loadNpmConfig().settings;
+  const layout = getLayout(options, settings);
+  const ignoreScripts = options.ignoreScripts ?? settings["ignore-scripts"] === "true";
+  const registry = createRegistryClient(getCacheMode(options, settings));
 
   // Make sure package.json exists
   if (!fs.existsSync(packageJsonPath)) {
@@ -25,14 +93,77 @@ export async function installAllDependencies() {
   }
 
   // Get top-level dependencies from package.json
-  const topLevelDependencies: Record<string, string> = JSON.parse(
-    fs.readFileSync(packageJsonPath, "utf8")
-  ).dependencies;
+  const {
+    all: topLevelDependencies,
+    dev: devDependencies,
+    optional: optionalDependencies,
+  } = getTopLevelDependencies(
+    JSON.parse(fs.readFileSync(packageJsonPath, "utf8"))
+  );
+
+  // Install straight from the lockfile when it still satisfies package.json, otherwise construct an installation plan
+  // that keeps the locked versions of everything that didn't change
+  const lockfile = options.ignoreLockfile ? undefined : readLockfile();
+  const lockedVersions = lockfile
+    ? getLockedVersions(lockfile, topLevelDependencies)
+    : undefined;
+  for (const name of options.unlock || []) {
+    lockedVersions?.delete(name);
+  }
 
-  // Construct an installation plan
-  const installationPlan =
-    await constructInstallationPlan(topLevelDependencies);
+  let installationPlan: InstallationPlan;
+  let graph: DependencyGraph = new Map();
+  if (
+    lockfile &&
+    !options.unlock?.length &&
+    !options.replan &&
+    isLockfileInSync(
+      lockfile,
+      topLevelDependencies,
+      devDependencies,
+      optionalDependencies
+    )
+  ) {
+    console.log("Installing from package-lock.json...");
+    installationPlan = lockfileToPlan(lockfile);
+    graph = getDependencyGraph(lockfile);
+  } else {
+    installationPlan = await constructInstallationPlan(topLevelDependencies, {
+      lockedVersions,
+      concurrency: options.concurrency,
+      devDependencies,
+      optionalDependencies,
+      graph,
+      hoisting: options.hoisting ? getHoistingStrategy(options.hoisting) : undefined,
+      registry,
+    });
+  }
+
+  // Execute the installation plan, only touching the packages in node_modules that differ from it
+  const plan = options.production
+    ? installationPlan.filter((dep) => !dep.dev)
+    : installationPlan;
+  const changes = layout === "isolated"
+    ? await syncIsolatedNodeModules(plan, graph, Object.keys(topLevelDependencies), options.concurrency, registry)
+    : await syncNodeModules(plan, options.concurrency, registry);
+
+  // Persist the resolved tree so that later installs are reproducible. The lockfile always describes the full tree,
+  // including dev dependencies that a production install skipped.
+  writeLockfile(
+    createLockfile(
+      installationPlan,
+      topLevelDependencies,
+      devDependencies,
+      optionalDependencies,
+      graph
+    )
+  );
+
+  // Build what was just installed, dependencies first, then prepare the project itself
+  await runInstallScripts(changes.added, plan, graph, { ignoreScripts, allowScripts: options.allowScripts });
+  if (!ignoreScripts) {
+    await runScript(outputDir, "prepare");
+  }
 
-  // Execute the installation plan (download dependencies to their specified locations)
-  await installPackages(installationPlan);
+  return changes;
 }
@@ -0,0 +1,187 @@
+import fs from "fs";
+import path from "path";
+import { createLockfile, writeLockfile } from "../../util/lockfile";
+import {
+  nodeModulesPath,
+  outputDir,
+  packageJsonPath,
+  packageLockJsonPath,
+} from "../../util/paths";
+import { getPackageTree, listPackages, pruneTree } from "./ls";
+
+function writePackage(location: string, manifest: Record<string, unknown>) {
+  const packagePath = path.join(outputDir, location);
+  fs.mkdirSync(packagePath, { recursive: true });
+  fs.writeFileSync(path.join(packagePath, "package.json"), JSON.stringify(manifest));
+}
+
+describe("ls", () => {
+  beforeEach(() => {
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+    fs.writeFileSync(
+      packageJsonPath,
+      JSON.stringify({
+        name: "project",
+        version: "1.0.0",
+        dependencies: { a: "^1.0.0", missing: "^1.0.0" },
+        devDependencies: { b: "^2.0.0" },
+        optionalDependencies: { maybe: "^1.0.0" },
+      })
+    );
+    writePackage("node_modules/a", {
+      name: "a",
+      version: "1.0.0",
+      dependencies: { c: "^1.0.0", b: "^1.0.0" },
+    });
+    writePackage("node_modules/a/node_modules/c", { name: "c", version: "1.1.0" });
+    writePackage("node_modules/b", { name: "b", version: "1.0.0" });
+    writePackage("node_modules/stray", { name: "stray", version: "0.1.0" });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+    fs.rmSync(packageLockJsonPath, { force: true });
+  });
+
+  it("resolves the installed tree and flags missing, invalid and extraneous packages", () => {
+    const tree = getPackageTree();
+
+    expect(tree.dependencies).toEqual([
+      {
+        name: "a",
+        range: "^1.0.0",
+        location: "node_modules/a",
+        version: "1.0.0",
+        dependencies: [
+          { name: "b", range: "^1.0.0", location: "node_modules/b", version: "1.0.0", dependencies: [] },
+          {
+            name: "c",
+            range: "^1.0.0",
+            location: "node_modules/a/node_modules/c",
+            version: "1.1.0",
+            dependencies: [],
+          },
+        ],
+      },
+      {
+        name: "b",
+        range: "^2.0.0",
+        location: "node_modules/b",
+        version: "1.0.0",
+        problem: "invalid",
+        deduped: true,
+        dependencies: [],
+      },
+      { name: "missing", range: "^1.0.0", problem: "missing", dependencies: [] },
+      {
+        name: "stray",
+        location: "node_modules/stray",
+        version: "0.1.0",
+        problem: "extraneous",
+        dependencies: [],
+      },
+    ]);
+    expect(tree.problems).toEqual([
+      "invalid: b@1.0.0 (node_modules/b) doesn't satisfy ^2.0.0, required by package.json",
+      "missing: missing@^1.0.0, required by package.json",
+      "extraneous: stray@0.1.0 (node_modules/stray)",
+    ]);
+  });
+
+  it("prunes by depth and keeps only the branches that lead to the named packages", () => {
+    const { dependencies } = getPackageTree();
+
+    expect(pruneTree(dependencies, 0).map((node) => node.dependencies.length)).toEqual([0, 0, 0, 0]);
+    expect(pruneTree(dependencies, Infinity, ["c"])).toEqual([
+      expect.objectContaining({ name: "a", dependencies: [expect.objectContaining({ name: "c" })] }),
+    ]);
+  });
+
+  it("prints a tree, or paths when parseable", () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    listPackages([], {});
+    expect(log.mock.calls[0][0]).toEqual(
+      [
+        `project@1.0.0 ${outputDir}`,
+        "├── a@1.0.0",
+        "│   ├── b@1.0.0",
+        "│   └── c@1.1.0",
+        '├── b@1.0.0 deduped invalid: "^2.0.0"',
+        "├── UNMET DEPENDENCY missing@^1.0.0",
+        "└── stray@0.1.0 extraneous",
+      ].join("\n")
+    );
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Problems:\n  invalid: b@1.0.0"));
+
+    listPackages(["c"], { parseable: true });
+    expect(log.mock.calls[1][0]).toEqual(
+      [outputDir, path.join(nodeModulesPath, "a"), path.join(nodeModulesPath, "a", "node_modules", "c")].join("\n")
+    );
+  });
+
+  it("follows the links of an isolated install into the store", () => {
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+    fs.writeFileSync(packageJsonPath, JSON.stringify({ name: "project", version: "1.0.0", dependencies: { a: "^1.0.0" } }));
+    writePackage("node_modules/.store/a@1.0.0/node_modules/a", {
+      name: "a",
+      version: "1.0.0",
+      dependencies: { b: "^1.0.0" },
+    });
+    writePackage("node_modules/.store/b@1.0.0/node_modules/b", { name: "b", version: "1.0.0" });
+    fs.symlinkSync(
+      path.join("..", "..", "b@1.0.0", "node_modules", "b"),
+      path.join(nodeModulesPath, ".store", "a@1.0.0", "node_modules", "b"),
+      "dir"
+    );
+    fs.symlinkSync(path.join(".store", "a@1.0.0", "node_modules", "a"), path.join(nodeModulesPath, "a"), "dir");
+
+    const tree = getPackageTree();
+    expect(tree.problems).toEqual([]);
+    expect(tree.dependencies).toEqual([
+      {
+        name: "a",
+        range: "^1.0.0",
+        location: "node_modules/a",
+        version: "1.0.0",
+        dependencies: [
+          {
+            name: "b",
+            range: "^1.0.0",
+            location: "node_modules/.store/a@1.0.0/node_modules/b",
+            version: "1.0.0",
+            dependencies: [],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("lists the lockfile instead of node_modules", () => {
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+    writeLockfile(
+      createLockfile(
+        [
+          { name: "a", version: "1.2.0" },
+          { name: "b", version: "2.0.0" },
+        ],
+        { a: "^1.0.0", b: "^2.0.0" },
+        new Set(["b"]),
+        new Set(),
+        new Map([["a@1.2.0", { dependencies: { b: "^2.0.0" } }]])
+      )
+    );
+
+    const tree = getPackageTree({ packageLockOnly: true });
+    expect(tree.dependencies.map((node) => [node.name, node.version, node.problem])).toEqual([
+      ["a", "1.2.0", undefined],
+      ["b", "2.0.0", undefined],
+      ["missing", undefined, "missing"],
+    ]);
+    expect(tree.dependencies[0].dependencies).toEqual([
+      { name: "b", range: "^2.0.0", location: "node_modules/b", version: "2.0.0", dependencies: [] },
+    ]);
+  });
+});
@@ -0,0 +1,272 @@
+import fs from "fs";
+import path from "path";
+import { DependencyRanges } from "../../types";
+import { Lockfile, readLockfile } from "../../util/lockfile";
+import { InstalledPackage, readInstalledPackages } from "../../util/nodeModules";
+import { getTopLevelDependencies } from "../../util/packageJson";
+import { specAllowsVersion } from "../../util/packageSpec";
+import { outputDir, packageJsonPath } from "../../util/paths";
+import {
+  DependencyEdge,
+  getDependencyEdges,
+  getLookupDirectories,
+  getTopLevelEdges,
+} from "../../util/tree";
+
+/**
+ * depth: how many levels below the top-level dependencies to show (defaults to all of them)
+ * json: print the tree as JSON
+ * parseable: print the path of each listed package, one per line
+ * packageLockOnly: list package-lock.json instead of what is in node_modules
+ */
+export interface ListOptions {
+  depth?: number;
+  json?: boolean;
+  parseable?: boolean;
+  packageLockOnly?: boolean;
+}
+
+/**
+ * name: the name it is required as
+ * range: the range its dependent asked for, undefined for extraneous packages
+ * location: where it is installed, undefined when it is missing
+ * version: the installed version ("npm:real-name@version" for aliases), undefined if missing or unreadable
+ * problem: missing (nothing satisfies a required range), invalid (the copy it resolves to doesn't satisfy the range)
+ * or extraneous (installed, but nothing requires it)
+ * deduped: listed further up the tree already, so its dependencies aren't repeated here
+ * dependencies: what it requires, by name
+ */
+export interface ListedPackage {
+  name: string;
+  range?: string;
+  location?: string;
+  version?: string;
+  problem?: "missing" | "invalid" | "extraneous";
+  deduped?: boolean;
+  dependencies: ListedPackage[];
+}
+
+/**
+ * name, version: the project's, from package.json
+ * dependencies: the top-level dependencies, then any extraneous packages
+ * problems: a line for each missing, invalid or extraneous package anywhere in the tree
+ */
+export interface PackageTree {
+  name?: string;
+  version?: string;
+  dependencies: ListedPackage[];
+  problems: string[];
+}
+
+type InstalledWithRanges = InstalledPackage & { ranges: DependencyRanges };
+
+function readInstalledWithRanges(): Map<string, InstalledWithRanges> {
+  const installed = new Map<string, InstalledWithRanges>();
+  for (const [location, pkg] of readInstalledPackages()) {
+    let ranges: DependencyRanges = {};
+    try {
+      ranges = JSON.parse(fs.readFileSync(path.join(outputDir, location, "package.json"), "utf8"));
+    } catch (e) {
+      // Listed as invalid, since there's no version to check
+    }
+    installed.set(location, { ...pkg, ranges });
+  }
+  return installed;
+}
+
+function readLockedWithRanges(lockfile: Lockfile): Map<string, InstalledWithRanges> {
+  return new Map(
+    Object.entries(lockfile.packages).map(([location, entry]) => [
+      location,
+      {
+        location,
+        name: entry.name,
+        packageName: entry.packageName || entry.name,
+        version: entry.version,
+        ranges: entry,
+      },
+    ])
+  );
+}
+
+function formatVersion(pkg: InstalledPackage): string | undefined {
+  if (pkg.version && pkg.packageName && pkg.packageName !== pkg.name) {
+    return `npm:${pkg.packageName}@${pkg.version}`;
+  }
+  return pkg.version;
+}
+
+/**
+ * Resolves what the project requires the way Node would, starting from package.json, and lists whatever is installed
+ * but never reached as extraneous
+ */
+function buildPackageTree(
+  topLevel: DependencyEdge[],
+  installed: Map<string, InstalledWithRanges>
+): ListedPackage[] {
+  const reached = new Set<string>();
+  const byName = (a: DependencyEdge, b: DependencyEdge) => a.name.localeCompare(b.name);
+
+  function resolve(edge: DependencyEdge, from?: string): ListedPackage | undefined {
+    const location = getLookupDirectories(from)
+      .map((directory) => `${directory}/${edge.name}`)
+      .find((candidate) => installed.has(candidate));
+    if (!location) {
+      return edge.optional ? undefined : { name: edge.name, range: edge.range, problem: "missing", dependencies: [] };
+    }
+
+    const pkg = installed.get(location)!;
+    const node: ListedPackage = { name: edge.name, range: edge.range, location, dependencies: [] };
+    const version = formatVersion(pkg);
+    if (version) {
+      node.version = version;
+    }
+    if (!pkg.version || !specAllowsVersion(edge.name, edge.range, pkg.version)) {
+      node.problem = "invalid";
+    }
+    // A linked package's dependencies are resolved from the folder the link points to, which other links share
+    const realLocation = pkg.realLocation ?? location;
+    const deduped = reached.has(realLocation);
+    reached.add(location).add(realLocation);
+    if (deduped) {
+      node.deduped = true;
+      return node;
+    }
+
+    node.dependencies = resolveAll(getDependencyEdges(pkg.ranges), realLocation);
+    return node;
+  }
+
+  function resolveAll(edges: DependencyEdge[], from?: string): ListedPackage[] {
+    return [...edges]
+      .sort(byName)
+      .map((edge) => resolve(edge, from))
+      .filter((node): node is ListedPackage => node !== undefined);
+  }
+
+  const dependencies = resolveAll(topLevel);
+  const extraneous = [...installed.values()]
+    .filter((pkg) => !reached.has(pkg.location))
+    .sort((a, b) => a.location.localeCompare(b.location))
+    .map((pkg): ListedPackage => {
+      const node: ListedPackage = { name: pkg.name, location: pkg.location, problem: "extraneous", dependencies: [] };
+      const version = formatVersion(pkg);
+      if (version) {
+        node.version = version;
+      }
+      return node;
+    });
+  return [...dependencies, ...extraneous];
+}
+
+function describeProblems(nodes: ListedPackage[], parent: string): string[] {
+  return nodes.flatMap((node) => {
+    const label = `${node.name}@${node.version || "unknown"}`;
+    const problems: string[] = [];
+    if (node.problem === "missing") {
+      problems.push(`missing: ${node.name}@${node.range}, required by ${parent}`);
+    } else if (node.problem === "invalid") {
+      problems.push(`invalid: ${label} (${node.location}) doesn't satisfy ${node.range}, required by ${parent}`);
+    } else if (node.problem === "extraneous") {
+      problems.push(`extraneous: ${label} (${node.location})`);
+    }
+    return [...problems, ...describeProblems(node.dependencies, label)];
+  });
+}
+
+/**
+ * Reads the installed tree (or the locked one) and resolves it against package.json
+ */
+export function getPackageTree(options: ListOptions = {}): PackageTree {
+  const packageJson = fs.existsSync(packageJsonPath)
+    ? JSON.parse(fs.readFileSync(packageJsonPath, "utf8"))
+    : {};
+
+  let installed: Map<string, InstalledWithRanges>;
+  if (options.packageLockOnly) {
+    const lockfile = readLockfile();
+    if (!lockfile) {
+      throw new Error("There is no package-lock.json to list, run install first");
+    }
+    installed = readLockedWithRanges(lockfile);
+  } else {
+    installed = readInstalledWithRanges();
+  }
+
+  const dependencies = buildPackageTree(getTopLevelEdges(getTopLevelDependencies(packageJson)), installed);
+  return {
+    name: packageJson.name,
+    version: packageJson.version,
+    dependencies,
+    problems: describeProblems(dependencies, "package.json"),
+  };
+}
+
+/**
+ * Keeps `depth` levels below the top-level packages and, when names are given, only the branches that lead to them
+ */
+export function pruneTree(nodes: ListedPackage[], depth: number, names: string[] = []): ListedPackage[] {
+  return nodes.flatMap((node) => {
+    const dependencies = depth > 0 ? pruneTree(node.dependencies, depth - 1, names) : [];
+    if (names.length > 0 && !names.includes(node.name) && dependencies.length === 0) {
+      return [];
+    }
+    return [{ ...node, dependencies }];
+  });
+}
+
+function formatNode(node: ListedPackage): string {
+  if (node.problem === "missing") {
+    return `UNMET DEPENDENCY ${node.name}@${node.range}`;
+  }
+  let label = `${node.name}@${node.version || "unknown"}`;
+  if (node.deduped) {
+    label += " deduped";
+  }
+  if (node.problem === "invalid") {
+    label += ` invalid: "${node.range}"`;
+  } else if (node.problem === "extraneous") {
+    label += " extraneous";
+  }
+  return label;
+}
+
+function formatTree(nodes: ListedPackage[], indent: string = ""): string[] {
+  return nodes.flatMap((node, i) => {
+    const isLast = i === nodes.length - 1;
+    return [
+      `${indent}${isLast ? "└── " : "├── "}${formatNode(node)}`,
+      ...formatTree(node.dependencies, indent + (isLast ? "    " : "│   ")),
+    ];
+  });
+}
+
+function listPaths(nodes: ListedPackage[]): string[] {
+  return nodes.flatMap((node) => [
+    ...(node.location ? [path.join(outputDir, node.location)] : []),
+    ...listPaths(node.dependencies),
+  ]);
+}
+
+/**
+ * This is the function that is called when the `ls` CLI command is run
+ */
+export function listPackages(names: string[] = [], options: ListOptions = {}) {
+  const tree = getPackageTree(options);
+  const dependencies = pruneTree(tree.dependencies, options.depth ?? Infinity, names);
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...tree, dependencies }, null, 2));
+    return;
+  }
+
+  if (options.parseable) {
+    console.log([outputDir, ...new Set(listPaths(dependencies))].join("\n"));
+  } else {
+    const root = tree.name ? `${tree.name}@${tree.version || "unknown"}` : "package.json";
+    console.log([`${root} ${outputDir}`, ...formatTree(dependencies)].join("\n"));
+  }
+  if (tree.problems.length > 0) {
+    console.warn(`Problems:\n${tree.problems.map((problem) => `  ${problem}`).join("\n")}`);
+  }
+}
@@ -0,0 +1,117 @@
+import fs from "fs";
+import path from "path";
+import { Packument } from "../../types";
+import { createLocalRegistryClient } from "../../util/localRegistry";
+import { DEFAULT_PACKAGE_JSON } from "../../util/packageJson";
+import { nodeModulesPath, outputDir, packageJsonPath } from "../../util/paths";
+import * as registryModule from "../../util/registry";
+import { getDependencyVersions, listOutdatedPackages } from "./outdated";
+
+const registryPath = path.join(outputDir, "outdated-registry");
+const registry = createLocalRegistryClient(registryPath);
+
+function createPackument(name: string, distTags: Record<string, string>, versions: string[]): Packument {
+  return {
+    name,
+    "dist-tags": distTags,
+    versions: Object.fromEntries(
+      versions.map((version) => [
+        version,
+        { name, version, dist: { tarball: `${name}/-/${name}-${version}.tgz`, shasum: "0".repeat(40) } },
+      ])
+    ),
+  };
+}
+
+const testPackages: Packument[] = [
+  createPackument("outdated-a", { latest: "2.0.0" }, ["1.0.0", "1.1.0", "2.0.0"]),
+  createPackument("current-b", { latest: "1.0.0" }, ["1.0.0"]),
+  createPackument("missing-c", { latest: "1.0.1", next: "2.0.0-beta.1" }, ["1.0.0", "1.0.1", "2.0.0-beta.1"]),
+];
+
+function installFakePackage(name: string, version: string) {
+  const packagePath = path.join(nodeModulesPath, name);
+  fs.mkdirSync(packagePath, { recursive: true });
+  fs.writeFileSync(path.join(packagePath, "package.json"), JSON.stringify({ name, version }));
+}
+
+describe("outdated", () => {
+  beforeAll(() => {
+    for (const packument of testPackages) {
+      fs.mkdirSync(path.join(registryPath, packument.name), { recursive: true });
+      fs.writeFileSync(path.join(registryPath, packument.name, "index.json"), JSON.stringify(packument));
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(registryPath, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    fs.writeFileSync(
+      packageJsonPath,
+      JSON.stringify({
+        ...DEFAULT_PACKAGE_JSON,
+        dependencies: {
+          "outdated-a": "^1.0.0",
+          "current-b": "^1.0.0",
+          "local-d": "file:./local-d",
+        },
+        devDependencies: { "missing-c": "~1.0.0" },
+      })
+    );
+    fs.rmSync(path.join(nodeModulesPath, "missing-c"), { recursive: true, force: true });
+    installFakePackage("outdated-a", "1.0.0");
+    installFakePackage("current-b", "1.0.0");
+  });
+
+  it("reports current, wanted and latest versions of registry dependencies", async () => {
+    expect(await getDependencyVersions(undefined, registry)).toEqual([
+      { name: "outdated-a", type: "dependencies", spec: "^1.0.0", current: "1.0.0", wanted: "1.1.0", latest: "2.0.0" },
+      { name: "current-b", type: "dependencies", spec: "^1.0.0", current: "1.0.0", wanted: "1.0.0", latest: "1.0.0" },
+      { name: "missing-c", type: "devDependencies", spec: "~1.0.0", wanted: "1.0.1", latest: "1.0.1" },
+    ]);
+  });
+
+  it("looks up versions in the registry with the configured cache mode", async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    const createRegistryClient = jest.spyOn(registryModule, "createRegistryClient").mockReturnValue(registry);
+
+    await listOutdatedPackages({ json: true, preferOffline: true });
+
+    expect(createRegistryClient).toHaveBeenCalledWith("prefer-offline");
+    createRegistryClient.mockRestore();
+    log.mockRestore();
+  });
+
+  it("rejects names that aren't dependencies", async () => {
+    await expect(getDependencyVersions(["unknown"], registry)).rejects.toThrow("unknown is not a dependency");
+  });
+
+  it("prints outdated and missing dependencies as JSON", async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    await listOutdatedPackages({ json: true, registry });
+
+    expect(JSON.parse(log.mock.calls[0][0])).toEqual({
+      "missing-c": { type: "devDependencies", spec: "~1.0.0", wanted: "1.0.1", latest: "1.0.1" },
+      "outdated-a": { type: "dependencies", spec: "^1.0.0", current: "1.0.0", wanted: "1.1.0", latest: "2.0.0" },
+    });
+    log.mockRestore();
+  });
+
+  it("prints a table", async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    await listOutdatedPackages({ registry });
+
+    expect(log.mock.calls[0][0]).toBe(
+      [
+        "Package     Current  Wanted  Latest  Type",
+        "missing-c   MISSING  1.0.1   1.0.1   devDependencies",
+        "outdated-a  1.0.0    1.1.0   2.0.0   dependencies",
+      ].join("\n")
+    );
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,152 @@
+import fs from "fs";
+import path from "path";
+import semver from "semver";
+import { getCacheMode } from "../../util/cache";
+import { createLimiter, DEFAULT_CONCURRENCY } from "../../util/concurrency";
+import { loadNpmConfig } from "../../util/npmrc";
+import { DEPENDENCY_TYPES, DependencyType } from "../../util/packageJson";
+import { isRegistrySpec, parseDependencySpec } from "../../util/packageSpec";
+import { nodeModulesPath, packageJsonPath } from "../../util/paths";
+import { createRegistryClient, RegistryClient } from "../../util/registry";
+
+/**
+ * name: the name of the dependency in package.json
+ * type: the section of package.json it is in
+ * spec: its spec in package.json, e.g. "^1.2.0" or "npm:other@^1.2.0"
+ * current: the version installed in node_modules, undefined if it isn't installed
+ * wanted: the highest version that the spec allows
+ * latest: the version tagged "latest" in the registry
+ */
+export interface DependencyVersions {
+  name: string;
+  type: DependencyType;
+  spec: string;
+  current?: string;
+  wanted?: string;
+  latest?: string;
+}
+
+/**
+ * json: print the result as JSON instead of a table
+ * offline, preferOffline: how to use cached metadata, as for install (defaults to .npmrc's offline and prefer-offline)
+ * registry: where to look up versions (defaults to the registry configured in .npmrc, used according to the above)
+ */
+export interface OutdatedOptions {
+  json?: boolean;
+  offline?: boolean;
+  preferOffline?: boolean;
+  registry?: RegistryClient;
+}
+
+function readInstalledVersion(name: string): string | undefined {
+  const manifestPath = path.join(nodeModulesPath, name, "package.json");
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, "utf8")).version;
+}
+
+/**
+ * Looks up the current, wanted and latest versions of every direct registry dependency, or just the named ones.
+ * Dependencies on paths, URLs and repositories have no registry versions to compare against and are left out.
+ * The registry defaults to the one in .npmrc, reading cached metadata according to its offline and prefer-offline.
+ */
+export async function getDependencyVersions(
+  names?: string[],
+  registry: RegistryClient = createRegistryClient(getCacheMode({}, loadNpmConfig().settings))
+): Promise<DependencyVersions[]> {
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+  const dependencies: { name: string; type: DependencyType; spec: string }[] = [];
+  for (const type of DEPENDENCY_TYPES) {
+    for (const [name, spec] of Object.entries<string>(packageJson[type] || {})) {
+      // A name listed in more than one section is reported once, under the first
+      if ((!names || names.includes(name)) && !dependencies.some((dep) => dep.name === name)) {
+        dependencies.push({ name, type, spec });
+      }
+    }
+  }
+  for (const name of names || []) {
+    if (!dependencies.some((dep) => dep.name === name)) {
+      throw new Error(`${name} is not a dependency`);
+    }
+  }
+
+  const limit = createLimiter(DEFAULT_CONCURRENCY);
+  const versions = await Promise.all(
+    dependencies.map(async ({ name, type, spec }): Promise<DependencyVersions | undefined> => {
+      const parsed = parseDependencySpec(name, spec);
+      if (!isRegistrySpec(parsed)) {
+        return undefined;
+      }
+      const target = parsed.subSpec || parsed;
+      const metadata = await limit(() => registry.getPackument(target.name || name));
+      const distTags: Record<string, string> = metadata["dist-tags"] || {};
+
+      const result: DependencyVersions = { name, type, spec };
+      const current = readInstalledVersion(name);
+      const wanted = target.type === "tag"
+        ? distTags[target.fetchSpec]
+        : semver.maxSatisfying(Object.keys(metadata.versions || {}), target.fetchSpec);
+      if (current) {
+        result.current = current;
+      }
+      if (wanted) {
+        result.wanted = wanted;
+      }
+      if (distTags.latest) {
+        result.latest = distTags.latest;
+      }
+      return result;
+    })
+  );
+
+  return versions.filter((dep): dep is DependencyVersions => dep !== undefined);
+}
+
+function isOutdated(dep: DependencyVersions): boolean {
+  return dep.current === undefined || dep.current !== dep.wanted || dep.current !== dep.latest;
+}
+
+// Pads each column to its widest cell
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd())
+    .join("\n");
+}
+
+/**
+ * This is the function that is called when the `outdated` CLI command is run
+ */
+export async function listOutdatedPackages(options: OutdatedOptions = {}) {
+  const registry = options.registry || createRegistryClient(getCacheMode(options, loadNpmConfig().settings));
+  const outdated = (await getDependencyVersions(undefined, registry))
+    .filter(isOutdated)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  if (options.json) {
+    const byName: Record<string, Omit<DependencyVersions, "name">> = {};
+    for (const { name, ...versions } of outdated) {
+      byName[name] = versions;
+    }
+    console.log(JSON.stringify(byName, null, 2));
+    return;
+  }
+
+  if (outdated.length === 0) {
+    console.log("All dependencies are up to date");
+    return;
+  }
+  console.log(
+    formatTable([
+      ["Package", "Current", "Wanted", "Latest", "Type"],
+      ...outdated.map((dep) => [
+        dep.name,
+        dep.current || "MISSING",
+        dep.wanted || "-",
+        dep.latest || "-",
+        dep.type,
+      ]),
+    ])
+  );
+}
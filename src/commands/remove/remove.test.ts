@@ -0,0 +1,54 @@
+import fs from "fs";
+import path from "path";
+import { DEFAULT_PACKAGE_JSON } from "../../util/packageJson";
+import {
+  nodeModulesPath,
+  packageJsonPath,
+  packageLockJsonPath,
+} from "../../util/paths";
+import { syncDependencies } from "../install/install";
+import { removePackages } from "./remove";
+
+describe("npm remove function", () => {
+  beforeEach(async () => {
+    // is-thirteen depends on noop3, which is also a direct dev dependency here
+    fs.writeFileSync(
+      packageJsonPath,
+      JSON.stringify(
+        {
+          ...DEFAULT_PACKAGE_JSON,
+          dependencies: { "is-thirteen": "2.0.0" },
+          devDependencies: { noop3: "^13.7.2" },
+        },
+        undefined,
+        2
+      )
+    );
+    await syncDependencies();
+  }, 30000);
+
+  it("should only delete packages that nothing else needs", async () => {
+    await removePackages(["is-thirteen"]);
+
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+    expect(packageJson.dependencies).toEqual({});
+    expect(fs.existsSync(path.join(nodeModulesPath, "is-thirteen"))).toBe(false);
+    expect(fs.existsSync(path.join(nodeModulesPath, "noop3"))).toBe(true);
+
+    const lockfile = JSON.parse(fs.readFileSync(packageLockJsonPath, "utf8"));
+    expect(Object.keys(lockfile.packages)).toEqual(["node_modules/noop3"]);
+  });
+
+  it("should remove packages from every dependency type", async () => {
+    await removePackages(["is-thirteen", "noop3"]);
+
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+    expect(packageJson.dependencies).toEqual({});
+    expect(packageJson.devDependencies).toEqual({});
+    expect(fs.existsSync(path.join(nodeModulesPath, "noop3"))).toBe(false);
+  });
+
+  it("should reject invalid package names", async () => {
+    await expect(removePackages(["Not A Package"])).rejects.toThrow("Invalid package name");
+  });
+});
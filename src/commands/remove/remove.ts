@@ -0,0 +1,43 @@
+import fs from "fs";
+import { DEPENDENCY_TYPES } from "../../util/packageJson";
+import { isValidPackageName } from "../../util/packageSpec";
+import { packageJsonPath } from "../../util/paths";
+import { syncDependencies } from "../install/install";
+
+/**
+ * This is the function that is called when the `remove` CLI command is run
+ */
+export async function removePackages(packages: string[]) {
+  for (const name of packages) {
+    if (!isValidPackageName(name)) {
+      throw new Error(`Invalid package name "${name}"`);
+    }
+  }
+  if (!fs.existsSync(packageJsonPath)) {
+    throw new Error("There is no package.json to remove dependencies from");
+  }
+
+  // Drop the packages from every dependency type they were saved as
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+  for (const name of packages) {
+    const types = DEPENDENCY_TYPES.filter((type) => packageJson[type]?.[name] !== undefined);
+    if (types.length === 0) {
+      console.warn(`${name} is not a dependency`);
+    }
+    for (const type of types) {
+      delete packageJson[type][name];
+    }
+  }
+  fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
+
+  // Reinstalling with the rest of the lockfile pinned deletes exactly the packages that nothing else needs
+  const { removed } = await syncDependencies();
+  if (removed.length === 0) {
+    console.log("Nothing was removed from node_modules");
+    return;
+  }
+  console.log(`Removed ${removed.length} packages:`);
+  for (const pkg of removed) {
+    console.log(`  ${pkg.name}@${pkg.version} (${pkg.location})`);
+  }
+}
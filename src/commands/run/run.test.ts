@@ -0,0 +1,72 @@
+import fs from "fs";
+import path from "path";
+import { outputDir, packageJsonPath } from "../../util/paths";
+import { LifecycleScriptError } from "../../util/scripts";
+import { runPackageScript } from "./run";
+
+const logPath = path.join(outputDir, "run.log");
+
+// Appends the script's name and arguments to the log, so tests can see what ran and in what order
+const logScript = `node -e "require('fs').appendFileSync(process.env.RUN_LOG, ` +
+  `[process.env.npm_lifecycle_event, ...process.argv.slice(1)].join(' ') + '\\n')" --`;
+
+function readLog(): string[] {
+  return fs.existsSync(logPath) ? fs.readFileSync(logPath, "utf8").trim().split("\n") : [];
+}
+
+describe("runPackageScript", () => {
+  let originalPackageJson: string | undefined;
+
+  beforeEach(() => {
+    originalPackageJson = fs.existsSync(packageJsonPath) ? fs.readFileSync(packageJsonPath, "utf8") : undefined;
+    process.env.RUN_LOG = logPath;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    if (originalPackageJson === undefined) {
+      fs.rmSync(packageJsonPath, { force: true });
+    } else {
+      fs.writeFileSync(packageJsonPath, originalPackageJson);
+    }
+    delete process.env.RUN_LOG;
+    jest.restoreAllMocks();
+    fs.rmSync(logPath, { force: true });
+  });
+
+  function writeScripts(scripts: Record<string, string>) {
+    fs.writeFileSync(packageJsonPath, JSON.stringify({ name: "project", version: "1.0.0", scripts }));
+  }
+
+  it("runs the pre and post hooks around the script, passing the arguments to the script only", async () => {
+    writeScripts({ pretest: logScript, test: logScript, posttest: logScript });
+
+    await runPackageScript("test", ["--watch", "it's quoted"]);
+
+    expect(readLog()).toEqual(["pretest", "test --watch it's quoted", "posttest"]);
+  });
+
+  it("lists the scripts when none is given", async () => {
+    writeScripts({ build: "tsc", test: "jest" });
+
+    await runPackageScript();
+
+    expect(console.log).toHaveBeenCalledWith("Scripts available via `run`:\n  build\n    tsc\n  test\n    jest");
+  });
+
+  it("fails for a missing script", async () => {
+    writeScripts({ build: "tsc" });
+
+    await expect(runPackageScript("test")).rejects.toThrow("Missing script: test");
+  });
+
+  it("fails with the exit code of the script and skips the post hook", async () => {
+    writeScripts({ test: `node -e "process.exit(2)"`, posttest: logScript });
+
+    const error = await runPackageScript("test").catch((e) => e);
+
+    expect(error).toBeInstanceOf(LifecycleScriptError);
+    expect(error.exitCode).toBe(2);
+    expect(readLog()).toEqual([]);
+  });
+});
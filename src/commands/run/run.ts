@@ -0,0 +1,32 @@
+import { outputDir } from "../../util/paths";
+import { readManifest, runScript } from "../../util/scripts";
+
+/**
+ * Lists the scripts in package.json with the command each of them runs
+ */
+export function formatScripts(scripts: Record<string, string>): string {
+  const names = Object.keys(scripts);
+  if (names.length === 0) {
+    return "There are no scripts in package.json";
+  }
+  return ["Scripts available via `run`:", ...names.map((name) => `  ${name}\n    ${scripts[name]}`)].join("\n");
+}
+
+/**
+ * This is the function that is called when the `run` CLI command is run
+ */
+export async function runPackageScript(script?: string, args: string[] = []) {
+  const scripts = readManifest(outputDir).scripts || {};
+  if (!script) {
+    console.log(formatScripts(scripts));
+    return;
+  }
+  if (!scripts[script]) {
+    throw new Error(`Missing script: ${script}\n\n${formatScripts(scripts)}`);
+  }
+
+  // Like npm, only the script itself gets the extra arguments, not its pre and post hooks
+  await runScript(outputDir, `pre${script}`, { foreground: true });
+  await runScript(outputDir, script, { args, foreground: true });
+  await runScript(outputDir, `post${script}`, { foreground: true });
+}
@@ -0,0 +1,90 @@
+import fs from "fs";
+import path from "path";
+import { Packument } from "../../types";
+import { createLocalRegistryClient } from "../../util/localRegistry";
+import { DEFAULT_PACKAGE_JSON } from "../../util/packageJson";
+import { outputDir, packageJsonPath } from "../../util/paths";
+import { syncDependencies } from "../install/install";
+import { bumpSpec, updatePackages } from "./update";
+
+jest.mock("../install/install");
+
+const registryPath = path.join(outputDir, "update-registry");
+const registry = createLocalRegistryClient(registryPath);
+
+function createPackument(name: string, latest: string, versions: string[]): Packument {
+  return {
+    name,
+    "dist-tags": { latest },
+    versions: Object.fromEntries(
+      versions.map((version) => [
+        version,
+        { name, version, dist: { tarball: `${name}/-/${name}-${version}.tgz`, shasum: "0".repeat(40) } },
+      ])
+    ),
+  };
+}
+
+const testPackages: Packument[] = [
+  createPackument("caret-a", "2.0.0", ["1.0.0", "1.2.0", "2.0.0"]),
+  createPackument("exact-b", "1.1.0", ["1.0.0", "1.1.0"]),
+];
+
+describe("bumpSpec", () => {
+  it("keeps the style of the spec", () => {
+    expect(bumpSpec("a", "^1.0.0", "1.2.0")).toBe("^1.2.0");
+    expect(bumpSpec("a", "~1.0.0", "1.0.3")).toBe("~1.0.3");
+    expect(bumpSpec("a", ">=1.0.0", "2.0.0")).toBe(">=2.0.0");
+    expect(bumpSpec("a", "1.0.0", "1.1.0")).toBe("1.1.0");
+    expect(bumpSpec("a", "npm:b@^1.0.0", "1.2.0")).toBe("npm:b@^1.2.0");
+  });
+
+  it("leaves tags and ranges that already allow the version alone", () => {
+    expect(bumpSpec("a", "next", "2.0.0")).toBe("next");
+    expect(bumpSpec("a", "1.x", "1.4.0")).toBe("1.x");
+    expect(bumpSpec("a", "1.x", "2.0.0")).toBe("^2.0.0");
+  });
+});
+
+describe("updatePackages", () => {
+  beforeAll(() => {
+    for (const packument of testPackages) {
+      fs.mkdirSync(path.join(registryPath, packument.name), { recursive: true });
+      fs.writeFileSync(path.join(registryPath, packument.name, "index.json"), JSON.stringify(packument));
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(registryPath, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fs.writeFileSync(
+      packageJsonPath,
+      JSON.stringify({
+        ...DEFAULT_PACKAGE_JSON,
+        dependencies: { "caret-a": "^1.0.0" },
+        devDependencies: { "exact-b": "1.0.0" },
+      })
+    );
+  });
+
+  it("bumps every range up to its wanted version and reinstalls from scratch", async () => {
+    await updatePackages([], { registry });
+
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+    expect(packageJson.dependencies).toEqual({ "caret-a": "^1.2.0" });
+    expect(packageJson.devDependencies).toEqual({ "exact-b": "1.0.0" });
+    expect(syncDependencies).toHaveBeenCalledWith({ ignoreLockfile: true });
+  });
+
+  it("bumps only the named packages to latest with --latest", async () => {
+    await updatePackages(["exact-b"], { latest: true, registry });
+
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+    expect(packageJson.dependencies).toEqual({ "caret-a": "^1.0.0" });
+    expect(packageJson.devDependencies).toEqual({ "exact-b": "1.1.0" });
+    expect(syncDependencies).toHaveBeenCalledWith({ unlock: ["exact-b"] });
+  });
+});
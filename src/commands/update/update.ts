@@ -0,0 +1,64 @@
+import fs from "fs";
+import semver from "semver";
+import { parseDependencySpec } from "../../util/packageSpec";
+import { packageJsonPath } from "../../util/paths";
+import { RegistryClient } from "../../util/registry";
+import { syncDependencies } from "../install/install";
+import { getDependencyVersions } from "../outdated/outdated";
+
+/**
+ * latest: update to the version tagged "latest", even when the range in package.json doesn't allow it
+ * registry: where to look up the versions to update to (defaults to the registry configured in .npmrc)
+ */
+export interface UpdateOptions {
+  latest?: boolean;
+  registry?: RegistryClient;
+}
+
+/**
+ * Moves a spec up to `version` in the same style: "^1.0.0" becomes "^1.4.0" and an exact version stays exact. Tags are
+ * left alone, as are other ranges that already allow the version; the rest become "^version".
+ */
+export function bumpSpec(name: string, spec: string, version: string): string {
+  const parsed = parseDependencySpec(name, spec);
+  if (parsed.type === "alias") {
+    const subSpec = parsed.subSpec!;
+    return `npm:${subSpec.name}@${bumpSpec(subSpec.name!, subSpec.rawSpec, version)}`;
+  }
+  if (parsed.type === "tag") {
+    return spec;
+  }
+  if (parsed.type === "version") {
+    return version;
+  }
+
+  const simpleRange = /^(\^|~|>=)?\s*v?\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/.exec(spec.trim());
+  if (simpleRange) {
+    return `${simpleRange[1] || ""}${version}`;
+  }
+  return semver.satisfies(version, parsed.fetchSpec) ? spec : `^${version}`;
+}
+
+/**
+ * This is the function that is called when the `update` CLI command is run
+ */
+export async function updatePackages(packages: string[] = [], options: UpdateOptions = {}) {
+  const names = packages.length > 0 ? packages : undefined;
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+
+  for (const dep of await getDependencyVersions(names, options.registry)) {
+    const version = options.latest ? dep.latest : dep.wanted;
+    if (!version) {
+      continue;
+    }
+    const spec = bumpSpec(dep.name, dep.spec, version);
+    if (spec !== dep.spec) {
+      packageJson[dep.type][dep.name] = spec;
+      console.log(`Updated ${dep.name} from ${dep.spec} to ${spec}`);
+    }
+  }
+  fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
+
+  // Named packages are resolved afresh; updating everything also updates everything they depend on
+  await syncDependencies(names ? { unlock: names } : { ignoreLockfile: true });
+}
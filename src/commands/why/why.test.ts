@@ -0,0 +1,60 @@
+import { Lockfile, LOCKFILE_VERSION } from "../../util/lockfile";
+import { explainPackage } from "./why";
+
+const lockfile: Lockfile = {
+  lockfileVersion: LOCKFILE_VERSION,
+  requires: { app: "^1.0.0", legacy: "1.0.0", tooling: "^3.0.0" },
+  devDependencies: ["tooling"],
+  packages: {
+    "node_modules/app": {
+      name: "app",
+      version: "1.2.0",
+      dependencies: { shared: "^2.0.0", legacy: "^1.0.0" },
+    },
+    "node_modules/legacy": {
+      name: "legacy",
+      version: "1.0.0",
+      dependencies: { shared: "^1.0.0" },
+    },
+    "node_modules/legacy/node_modules/shared": {
+      name: "shared",
+      version: "1.4.0",
+      dependencies: { legacy: "1" },
+    },
+    "node_modules/shared": { name: "shared", version: "2.1.0" },
+    "node_modules/tooling": {
+      name: "tooling",
+      version: "3.0.0",
+      peerDependencies: { shared: ">=2" },
+    },
+  },
+};
+
+describe("explainPackage", () => {
+  it("lists every path to a hoisted copy", () => {
+    const [explanation] = explainPackage("shared", lockfile).filter((e) => e.location === "node_modules/shared");
+
+    expect(explanation.reason).toBeUndefined();
+    expect(
+      explanation.paths.map((path) => path.map((step) => [step.dep.name, step.range, step.kind]))
+    ).toEqual([
+      [["app", "^1.0.0", undefined], ["shared", "^2.0.0", undefined]],
+      [["tooling", "^3.0.0", "dev"], ["shared", ">=2", "peer"]],
+    ]);
+  });
+
+  it("explains why a copy is nested and follows paths through other packages without looping", () => {
+    const [explanation] = explainPackage("shared", lockfile).filter((e) => e.location !== "node_modules/shared");
+
+    expect(explanation.location).toEqual("node_modules/legacy/node_modules/shared");
+    expect(explanation.reason).toEqual("nested because node_modules/shared is shared@2.1.0, which doesn't satisfy ^1.0.0");
+    expect(explanation.paths.map((path) => path.map((step) => step.dep.name))).toEqual([
+      ["app", "legacy", "shared"],
+      ["legacy", "shared"],
+    ]);
+  });
+
+  it("returns nothing for a package that isn't installed", () => {
+    expect(explainPackage("missing", lockfile)).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+import { DependencyInstallation } from "../../types";
+import {
+  getInstallLocation,
+  Lockfile,
+  lockfileToPlan,
+  readLockfile,
+} from "../../util/lockfile";
+import { specAllowsVersion } from "../../util/packageSpec";
+import {
+  DependencyEdge,
+  findVisibleInstallation,
+  getDependencyEdges,
+  getLookupDirectories,
+  getTopLevelEdges,
+  indexByLocation,
+} from "../../util/tree";
+
+/**
+ * One hop along a dependency path
+ *
+ * dep: the installed copy that the range resolved to
+ * range: the range its dependent asked for
+ * kind: how it was asked for, if not as a regular dependency
+ */
+export interface DependencyStep {
+  dep: DependencyInstallation;
+  range: string;
+  kind?: DependencyEdge["kind"];
+}
+
+/**
+ * Why one installed copy of a package is where it is
+ *
+ * location: where the copy is installed, e.g. "node_modules/a/node_modules/b"
+ * reason: why it is nested rather than hoisted to the root, for nested copies
+ * paths: every chain of dependencies from package.json that ends at this copy
+ */
+export interface PackageExplanation {
+  dep: DependencyInstallation;
+  location: string;
+  reason?: string;
+  paths: DependencyStep[][];
+}
+
+/**
+ * Traces every installed copy of `name` in the lockfile back to package.json
+ */
+export function explainPackage(name: string, lockfile: Lockfile): PackageExplanation[] {
+  const plan = lockfileToPlan(lockfile);
+  const installed = indexByLocation(plan);
+  const rootEdges = getTopLevelEdges({
+    all: lockfile.requires,
+    dev: new Set(lockfile.devDependencies || []),
+    optional: new Set(lockfile.optionalDependencies || []),
+  });
+
+  // Resolve every edge to the copy it reaches, the way Node would from where the dependent is installed
+  const children = new Map<string, { edge: DependencyEdge; dep: DependencyInstallation }[]>();
+  function resolveEdges(edges: DependencyEdge[], from?: DependencyInstallation) {
+    return edges
+      .map((edge) => ({ edge, dep: findVisibleInstallation(installed, edge.name, from)! }))
+      .filter(({ dep }) => dep !== undefined);
+  }
+  for (const dep of plan) {
+    const location = getInstallLocation(dep);
+    children.set(location, resolveEdges(getDependencyEdges(lockfile.packages[location]), dep));
+  }
+
+  // Only walk into packages that lead to a copy of `name`, so unrelated parts of the tree are skipped
+  const leadsToTarget = new Set(plan.filter((dep) => dep.name === name).map(getInstallLocation));
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const [location, edges] of children) {
+      if (!leadsToTarget.has(location) && edges.some(({ dep }) => leadsToTarget.has(getInstallLocation(dep)))) {
+        leadsToTarget.add(location);
+        grew = true;
+      }
+    }
+  }
+
+  const paths = new Map<string, DependencyStep[][]>();
+  function walk(resolved: { edge: DependencyEdge; dep: DependencyInstallation }[], path: DependencyStep[]) {
+    for (const { edge, dep } of resolved) {
+      const location = getInstallLocation(dep);
+      // A location that is already on the path is a cycle
+      if (!leadsToTarget.has(location) || path.some((step) => step.dep === dep)) {
+        continue;
+      }
+      const step: DependencyStep = { dep, range: edge.range };
+      if (edge.kind) {
+        step.kind = edge.kind;
+      }
+      const nextPath = [...path, step];
+      if (dep.name === name) {
+        paths.set(location, [...(paths.get(location) || []), nextPath]);
+      }
+      walk(children.get(location) || [], nextPath);
+    }
+  }
+  walk(resolveEdges(rootEdges), []);
+
+  return plan
+    .filter((dep) => dep.name === name)
+    .map((dep) => {
+      const location = getInstallLocation(dep);
+      const explanation: PackageExplanation = { dep, location, paths: paths.get(location) || [] };
+      const reason = getNestingReason(dep, explanation.paths, installed);
+      if (reason) {
+        explanation.reason = reason;
+      }
+      return explanation;
+    });
+}
+
+// Names the copy further up that this one shadows, and which of the ranges that led here it doesn't satisfy
+function getNestingReason(
+  dep: DependencyInstallation,
+  paths: DependencyStep[][],
+  installed: Map<string, DependencyInstallation>
+): string | undefined {
+  if (!dep.parentDirectory) {
+    return undefined;
+  }
+
+  const parentLocation = `node_modules/${dep.parentDirectory.replace(/\/node_modules$/, "")}`;
+  const shadowed = getLookupDirectories(parentLocation)
+    .slice(1)
+    .map((directory) => installed.get(`${directory}/${dep.name}`))
+    .find((other) => other !== undefined);
+  if (!shadowed) {
+    return `nested in ${parentLocation}`;
+  }
+
+  const conflicting = [...new Set(paths.map((path) => path[path.length - 1].range))].filter(
+    (range) => !specAllowsVersion(dep.name, range, shadowed.version)
+  );
+  return (
+    `nested because ${getInstallLocation(shadowed)} is ${shadowed.name}@${shadowed.version}` +
+    (conflicting.length > 0 ? `, which doesn't satisfy ${conflicting.join(" or ")}` : "")
+  );
+}
+
+function formatStep(step: DependencyStep): string {
+  return `${step.dep.name}@${step.dep.version} (${step.kind ? `${step.kind} ` : ""}${step.range})`;
+}
+
+/**
+ * This is the function that is called when the `why` CLI command is run
+ */
+export function explainInstalledPackage(name: string) {
+  const lockfile = readLockfile();
+  if (!lockfile) {
+    throw new Error("There is no package-lock.json to explain, run install first");
+  }
+
+  const explanations = explainPackage(name, lockfile);
+  if (explanations.length === 0) {
+    throw new Error(`${name} is not installed`);
+  }
+
+  for (const { dep, location, reason, paths } of explanations) {
+    console.log(`${dep.name}@${dep.version} (${location})`);
+    if (reason) {
+      console.log(`  ${reason}`);
+    }
+    if (paths.length === 0) {
+      console.log("  nothing depends on it");
+    }
+    for (const path of paths) {
+      console.log(`  ${["package.json", ...path.map(formatStep)].join(" > ")}`);
+    }
+  }
+}
@@ -1,25 +1,234 @@
-import { program } from "commander";
+import { InvalidArgumentError, program } from "commander";
 import { addPackage } from "./commands/add/add";
+import {
+  cleanCachedPackages,
+  listCachedPackages,
+  verifyCachedPackages,
+} from "./commands/cache/cache";
+import { dedupePackages } from "./commands/dedupe/dedupe";
+import { execBinary } from "./commands/exec/exec";
 import { installAllDependencies } from "./commands/install/install";
+import { listPackages } from "./commands/ls/ls";
+import { listOutdatedPackages } from "./commands/outdated/outdated";
+import { removePackages } from "./commands/remove/remove";
+import { runPackageScript } from "./commands/run/run";
+import { updatePackages } from "./commands/update/update";
+import { explainInstalledPackage } from "./commands/why/why";
+
+function parsePositiveInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError("Must be a positive integer.");
+  }
+  return parsed;
+}
+
+function parseNonNegativeInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError("Must be a non-negative integer.");
+  }
+  return parsed;
+}
 
 /**
  * Adds the dependency to the “dependencies” object in package.json
  *
- * Argument <package>: A "name@version" string as defined [here](https://github.com/npm/node-semver#versions)
+ * Argument <package>: A "name@spec" string, where spec is a version, range or dist-tag as defined
+ * [here](https://github.com/npm/node-semver#versions), or an "npm:other-name@spec" alias. It can also be a local
+ * "file:" path (relative to the project) or a tarball URL, optionally prefixed with "name@".
+ *
+ * Option --save-exact: save the resolved version without any prefix
+ * Option --save-prefix <prefix>: the prefix to save in front of a resolved version, e.g. "^"
+ * Option --save-dev: save to devDependencies
+ * Option --save-optional: save to optionalDependencies
  */
 program
   .command("add <package>")
   .description("Add a package")
+  .option("-E, --save-exact", "save the exact resolved version")
+  .option("--save-prefix <prefix>", "prefix to save in front of the resolved version")
+  .option("-D, --save-dev", "save to devDependencies")
+  .option("-O, --save-optional", "save to optionalDependencies")
   .action(addPackage);
 
 /**
  * Resolves the full dependency list from package.json and downloads all of the required packages to the “node_modules” folder
  *
  * This command has no arguments
+ *
+ * Option --concurrency <number>: how many metadata requests and downloads may run at once (defaults to 8)
+ * Option --production: skip devDependencies
+ * Option --hoisting <strategy>: how to choose the versions that go at the root of node_modules when resolving, either
+ * "most-ranges" (the default) or "fewest-copies"
+ * Option --layout <layout>: "hoisted" (the default) installs the plan as resolved, "isolated" stores each version once
+ * in node_modules/.store and symlinks every package to only the dependencies it declares. Defaults to .npmrc's
+ * node-linker setting, then to the layout node_modules already has.
+ * Option --ignore-scripts: don't run lifecycle scripts (the preinstall, install and postinstall scripts of installed
+ * packages, and the project's prepare script)
+ * Option --allow-scripts <packages...>: only run the install scripts of these packages
+ * Option --offline: install only from the cache, failing fast for any metadata or tarball that isn't in it. Defaults to
+ * .npmrc's offline setting.
+ * Option --prefer-offline: use cached metadata and tarballs without revalidating them, only fetching what is missing.
+ * Defaults to .npmrc's prefer-offline setting.
  */
 program
   .command("install")
   .description("Install dependencies")
+  .option(
+    "--concurrency <number>",
+    "maximum number of parallel requests",
+    parsePositiveInteger
+  )
+  .option("--production", "skip devDependencies")
+  .option("--hoisting <strategy>", "strategy for choosing the versions at the root")
+  .option("--layout <layout>", "how to lay out node_modules: hoisted or isolated")
+  .option("--ignore-scripts", "don't run lifecycle scripts")
+  .option("--allow-scripts <packages...>", "only run the install scripts of these packages")
+  .option("--offline", "only install from the cache")
+  .option("--prefer-offline", "use the cache without revalidating it")
   .action(installAllDependencies);
 
-program.parse(process.argv);
+/**
+ * Resolves package.json again, even if the lockfile is in sync, choosing the versions at the root of “node_modules” so
+ * that as few copies as possible are installed. Locked versions are kept wherever they do just as well. Prints the
+ * installation statistics from before and after.
+ *
+ * Option --hoisting <strategy>: the strategy to resolve with (defaults to "fewest-copies")
+ */
+program
+  .command("dedupe")
+  .alias("ddp")
+  .description("Reduce duplicated packages")
+  .option("--hoisting <strategy>", "strategy for choosing the versions at the root")
+  .action(dedupePackages);
+
+/**
+ * Removes the dependencies from package.json, then deletes every package in “node_modules” that nothing else needs
+ *
+ * Argument <packages...>: the names of the dependencies to remove, from any of dependencies, devDependencies and
+ * optionalDependencies
+ */
+program
+  .command("remove <packages...>")
+  .alias("uninstall")
+  .description("Remove packages")
+  .action(removePackages);
+
+/**
+ * Lists the direct dependencies that are missing or behind, with their current, wanted (the highest version allowed by
+ * package.json) and latest versions
+ *
+ * Option --json: print the result as JSON, keyed by package name
+ * Option --offline: only use cached metadata, failing for any package that isn't in it. Defaults to .npmrc's offline
+ * setting.
+ * Option --prefer-offline: use cached metadata without revalidating it. Defaults to .npmrc's prefer-offline setting.
+ */
+program
+  .command("outdated")
+  .description("List outdated dependencies")
+  .option("--json", "print JSON")
+  .option("--offline", "only use cached metadata")
+  .option("--prefer-offline", "use cached metadata without revalidating it")
+  .action(listOutdatedPackages);
+
+/**
+ * Bumps the ranges of direct dependencies in package.json up to their wanted versions, then reinstalls
+ *
+ * Argument [packages...]: the dependencies to update (defaults to all of them)
+ *
+ * Option --latest: update to the latest versions, even beyond what the current ranges allow
+ */
+program
+  .command("update [packages...]")
+  .description("Update dependencies")
+  .option("--latest", "update to the latest versions")
+  .action(updatePackages);
+
+/**
+ * Prints the dependency tree as Node resolves it from package.json, flagging missing packages, installed versions that
+ * don't satisfy their dependent's range, and extraneous packages that nothing requires
+ *
+ * Argument [packages...]: only show the branches that lead to these packages
+ *
+ * Option --depth <depth>: how many levels below the top-level dependencies to show (defaults to all of them)
+ * Option --json: print the tree as JSON
+ * Option --parseable: print the path of each listed package, one per line
+ * Option --package-lock-only: list package-lock.json instead of node_modules
+ */
+program
+  .command("ls [packages...]")
+  .alias("list")
+  .description("List installed packages")
+  .option("--depth <depth>", "levels of dependencies to show", parseNonNegativeInteger)
+  .option("--json", "print JSON")
+  .option("--parseable", "print package paths")
+  .option("--package-lock-only", "list package-lock.json instead of node_modules")
+  .action(listPackages);
+
+/**
+ * Explains why a package is installed, using the dependency graph saved in package-lock.json. Prints every installed
+ * copy, every path of dependencies from package.json to it (with the range each dependent asked for) and, for nested
+ * copies, the copy further up that it couldn't use.
+ *
+ * Argument <package>: the name the package is installed under
+ */
+program
+  .command("why <package>")
+  .alias("explain")
+  .description("Explain why a package is installed")
+  .action(explainInstalledPackage);
+
+/**
+ * Runs a script from package.json in the project folder, after its pre<script> and before its post<script> hook, with
+ * node_modules/.bin on PATH. Without a script, lists the available ones.
+ *
+ * Argument [script]: the name of the script in package.json
+ * Argument [args...]: extra arguments for the script (but not its hooks), after `--`
+ */
+program
+  .command("run [script] [args...]")
+  .alias("run-script")
+  .description("Run a package.json script")
+  .action(runPackageScript);
+
+/**
+ * Runs a command that an installed dependency provides in node_modules/.bin, in the project folder
+ *
+ * Argument <bin>: the name of the command
+ * Argument [args...]: arguments for the command, after `--` if any of them start with a dash
+ */
+program
+  .command("exec <bin> [args...]")
+  .description("Run a locally installed command")
+  .action(execBinary);
+
+/**
+ * Inspects and maintains the global package cache that installs link from
+ *
+ * Subcommands: `ls` lists cached packages, `verify` removes corrupt entries and unreferenced content, `clean` empties it
+ */
+const cache = program
+  .command("cache")
+  .description("Manage the global package cache");
+
+cache
+  .command("ls")
+  .description("List cached packages")
+  .action(listCachedPackages);
+
+cache
+  .command("verify")
+  .description("Verify cached packages and remove corrupt entries")
+  .action(verifyCachedPackages);
+
+cache
+  .command("clean")
+  .description("Remove every cached package")
+  .action(cleanCachedPackages);
+
+// Commands are async, so their failures are printed here instead of surfacing as unhandled rejections
+program.parseAsync(process.argv).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -8,10 +8,87 @@ export interface Dependency {
  * version: the version of the dependency
  * parentDirectory: if undefined, we install at the root of node_modules. Otherwise, this string defines
  * the relative path starting from node_modules of the parent folder where this dependency should be installed
+ * resolved: the tarball URL the version was resolved to, if known
+ * integrity: the SRI integrity string published by the registry for that tarball, if known
+ * packageName: the registry name of the package, if it is installed under an alias
+ * external: true if the package comes straight from `resolved` (a local path or tarball URL) instead of the registry
+ * dev: true if the package is only needed by the project's devDependencies
+ * optional: true if the package is only needed through optional dependencies, so failing to install it is not an error
  */
 export interface DependencyInstallation extends Dependency {
   parentDirectory?: string;
+  resolved?: string;
+  integrity?: string;
+  packageName?: string;
+  external?: boolean;
+  dev?: boolean;
+  optional?: boolean;
 }
 
 // An installation plan specifies which versions of dependencies to install and where to install them
 export type InstallationPlan = DependencyInstallation[];
+
+/**
+ * The ranges that a version asks for, as they appear in its package.json
+ */
+export interface DependencyRanges {
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+}
+
+// The ranges asked for by every version in an installation plan, keyed by "name@version"
+export type DependencyGraph = Map<string, DependencyRanges>;
+
+/**
+ * Where a published version's tarball is and what it hashes to
+ *
+ * tarball: the URL to download it from
+ * shasum: the hex SHA-1 of the tarball
+ * integrity: the SRI string of the tarball (sha512 for anything published in the last decade)
+ * fileCount, unpackedSize: how many files the package has and how big they are unpacked, if the registry says
+ */
+export interface PackageDist {
+  tarball: string;
+  shasum: string;
+  integrity?: string;
+  fileCount?: number;
+  unpackedSize?: number;
+}
+
+/**
+ * A single published version, as the registry describes it
+ *
+ * engines: the versions of node (or npm) it says it works with
+ * os, cpu: the platforms it can be installed on, where a leading "!" excludes one
+ * bin: the executables it provides, by name, as paths inside the package
+ * deprecated: the deprecation message, if the version was deprecated
+ * hasInstallScript: true if it has a preinstall, install or postinstall script (only in the abbreviated format)
+ */
+export interface VersionManifest extends DependencyRanges {
+  name: string;
+  version: string;
+  dist: PackageDist;
+  devDependencies?: Record<string, string>;
+  engines?: Record<string, string>;
+  os?: string[];
+  cpu?: string[];
+  bin?: Record<string, string>;
+  deprecated?: string;
+  hasInstallScript?: boolean;
+  scripts?: Record<string, string>;
+}
+
+/**
+ * Everything the registry knows about a package. The full format has `time`, the publish date of every version, while
+ * the abbreviated one (application/vnd.npm.install-v1+json) only has `modified`, and leaves out the fields of each
+ * version that installs don't need.
+ */
+export interface Packument {
+  name: string;
+  "dist-tags": Record<string, string>;
+  versions: Record<string, VersionManifest>;
+  time?: Record<string, string>;
+  modified?: string;
+}
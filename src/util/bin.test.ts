@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import { getBinEntries, syncBinLinks } from "./bin";
+import { nodeModulesPath } from "./paths";
+
+function writePackage(location: string, manifest: Record<string, unknown>, files: string[] = []) {
+  const packagePath = path.join(path.dirname(nodeModulesPath), location);
+  fs.mkdirSync(packagePath, { recursive: true });
+  fs.writeFileSync(path.join(packagePath, "package.json"), JSON.stringify(manifest));
+  for (const file of files) {
+    fs.mkdirSync(path.dirname(path.join(packagePath, file)), { recursive: true });
+    fs.writeFileSync(path.join(packagePath, file), "#!/usr/bin/env node\n", { mode: 0o644 });
+  }
+}
+
+describe("getBinEntries", () => {
+  it("normalizes string and object bins", () => {
+    expect(getBinEntries({ name: "@scope/tool", bin: "./cli.js" })).toEqual({ tool: "cli.js" });
+    expect(getBinEntries({ name: "tools", bin: { one: "bin/one.js", "@scope/two": "./bin/two.js" } })).toEqual({
+      one: "bin/one.js",
+      two: "bin/two.js",
+    });
+    expect(getBinEntries({ name: "none" })).toEqual({});
+  });
+
+  it("leaves out commands that would escape their folders", () => {
+    expect(
+      getBinEntries({
+        name: "evil",
+        bin: { "../evil": "cli.js", outside: "../../etc/passwd", absolute: "/bin/sh", parent: "..", ok: "a/../cli.js" },
+      })
+    ).toEqual({ ok: "cli.js" });
+  });
+});
+
+describe("syncBinLinks", () => {
+  beforeEach(() => {
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+  });
+
+  it("links commands into the .bin folder next to each package and makes them executable", () => {
+    writePackage("node_modules/tool", { name: "tool", bin: "cli.js" }, ["cli.js"]);
+    writePackage("node_modules/tool/node_modules/@scope/helper", { name: "@scope/helper", bin: { help: "h.js" } }, [
+      "h.js",
+    ]);
+
+    syncBinLinks(["node_modules/tool", "node_modules/tool/node_modules/@scope/helper"]);
+
+    const toolLink = path.join(nodeModulesPath, ".bin", "tool");
+    expect(fs.readlinkSync(toolLink)).toBe(path.join("..", "tool", "cli.js"));
+    expect(fs.statSync(toolLink).mode & 0o111).toBe(0o111);
+    expect(fs.readlinkSync(path.join(nodeModulesPath, "tool", "node_modules", ".bin", "help"))).toBe(
+      path.join("..", "@scope", "helper", "h.js")
+    );
+  });
+
+  it("makes a copy of a command hardlinked from the cache executable, leaving the cached file alone", () => {
+    writePackage("node_modules/tool", { name: "tool", bin: "cli.js" });
+    const cachedPath = path.join(path.dirname(nodeModulesPath), "cached-cli.js");
+    fs.writeFileSync(cachedPath, "#!/usr/bin/env node\n", { mode: 0o644 });
+    fs.linkSync(cachedPath, path.join(nodeModulesPath, "tool", "cli.js"));
+
+    syncBinLinks(["node_modules/tool"]);
+
+    expect(fs.statSync(path.join(nodeModulesPath, "tool", "cli.js")).mode & 0o111).toBe(0o111);
+    expect(fs.statSync(cachedPath).mode & 0o111).toBe(0);
+    fs.rmSync(cachedPath);
+  });
+
+  it("removes links and .bin folders of packages that are gone", () => {
+    writePackage("node_modules/tool", { name: "tool", bin: "cli.js" }, ["cli.js"]);
+    writePackage("node_modules/tool/node_modules/helper", { name: "helper", bin: "h.js" }, ["h.js"]);
+    writePackage("node_modules/other", { name: "other", bin: { other: "o.js" } }, ["o.js"]);
+    syncBinLinks(["node_modules/other", "node_modules/tool", "node_modules/tool/node_modules/helper"]);
+
+    fs.rmSync(path.join(nodeModulesPath, "other"), { recursive: true });
+    fs.rmSync(path.join(nodeModulesPath, "tool", "node_modules", "helper"), { recursive: true });
+    syncBinLinks(["node_modules/tool"]);
+
+    expect(fs.readdirSync(path.join(nodeModulesPath, ".bin"))).toEqual(["tool"]);
+    expect(fs.existsSync(path.join(nodeModulesPath, "tool", "node_modules"))).toBe(false);
+  });
+
+  it("keeps the first package's command when two provide the same one, and skips missing files", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    writePackage("node_modules/a-tool", { name: "a-tool", bin: { run: "a.js" } }, ["a.js"]);
+    writePackage("node_modules/b-tool", { name: "b-tool", bin: { run: "b.js", missing: "nope.js" } }, ["b.js"]);
+
+    syncBinLinks(["node_modules/b-tool", "node_modules/a-tool"]);
+
+    expect(fs.readlinkSync(path.join(nodeModulesPath, ".bin", "run"))).toBe(path.join("..", "a-tool", "a.js"));
+    expect(fs.existsSync(path.join(nodeModulesPath, ".bin", "missing"))).toBe(false);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("nope.js does not exist"));
+  });
+});
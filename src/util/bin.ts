@@ -0,0 +1,141 @@
+import fs from "fs";
+import path from "path";
+import { unlinkFileFromCache } from "./cache";
+import { nodeModulesPath } from "./paths";
+
+const BIN_DIRECTORY = ".bin";
+
+/**
+ * Normalizes a package.json `bin` field into command names and the files they run. A string is a single command named
+ * after the package (without its scope). Commands with path separators in their name, and files outside the package,
+ * are left out.
+ */
+export function getBinEntries(manifest: {
+  name?: string;
+  bin?: string | Record<string, string>;
+}): Record<string, string> {
+  const bin = typeof manifest.bin === "string"
+    ? { [(manifest.name || "").replace(/^@[^/]+\//, "")]: manifest.bin }
+    : manifest.bin || {};
+
+  const entries: Record<string, string> = {};
+  for (const [rawName, target] of Object.entries(bin)) {
+    const name = rawName.replace(/^@[^/]+\//, "");
+    const normalizedTarget = path.posix.normalize(String(target).split(path.win32.sep).join("/"));
+    if (
+      !name ||
+      /[\\/]/.test(name) ||
+      name.startsWith(".") ||
+      normalizedTarget === "." ||
+      normalizedTarget === ".." ||
+      normalizedTarget.startsWith("../") ||
+      path.posix.isAbsolute(normalizedTarget)
+    ) {
+      continue;
+    }
+    entries[name] = normalizedTarget;
+  }
+  return entries;
+}
+
+function toPath(location: string): string {
+  return path.join(path.dirname(nodeModulesPath), location);
+}
+
+// "node_modules/a/node_modules/@scope/b" is visible from "node_modules/a/node_modules"
+function getNodeModulesDirectory(location: string): string {
+  const index = location.lastIndexOf("/node_modules/");
+  return index === -1 ? "node_modules" : location.slice(0, index + "/node_modules".length);
+}
+
+function readBinEntries(location: string): Record<string, string> {
+  try {
+    return getBinEntries(JSON.parse(fs.readFileSync(path.join(toPath(location), "package.json"), "utf8")));
+  } catch (e) {
+    return {};
+  }
+}
+
+/**
+ * Makes each node_modules/.bin folder hold exactly the commands of the packages next to it. `locations` are every
+ * package in node_modules (as "node_modules/a/node_modules/b"); when two of them in the same folder provide the same
+ * command, the first one wins. Links to removed packages, and .bin folders with no packages left next to them, are
+ * deleted.
+ */
+export function syncBinLinks(locations: string[]) {
+  // .bin folder -> command -> path of the file it runs, relative to the .bin folder
+  const wanted = new Map<string, Map<string, string>>([["node_modules", new Map()]]);
+  for (const location of locations) {
+    // A package's own .bin folder may be left over from packages that used to be nested in it
+    if (!wanted.has(`${location}/node_modules`)) {
+      wanted.set(`${location}/node_modules`, new Map());
+    }
+  }
+
+  for (const location of [...locations].sort()) {
+    const directory = getNodeModulesDirectory(location);
+    if (!wanted.has(directory)) {
+      wanted.set(directory, new Map());
+    }
+    const commands = wanted.get(directory)!;
+    for (const [command, target] of Object.entries(readBinEntries(location))) {
+      const targetPath = path.join(toPath(location), target);
+      if (commands.has(command)) {
+        continue;
+      }
+      if (!fs.existsSync(targetPath)) {
+        console.warn(`Skipping the ${command} command of ${location}: ${target} does not exist`);
+        continue;
+      }
+      makeExecutable(targetPath);
+      commands.set(command, path.relative(toPath(`${directory}/${BIN_DIRECTORY}`), targetPath));
+    }
+  }
+
+  for (const [directory, commands] of wanted) {
+    const binPath = toPath(`${directory}/${BIN_DIRECTORY}`);
+    if (fs.existsSync(binPath)) {
+      for (const command of fs.readdirSync(binPath)) {
+        const linkPath = path.join(binPath, command);
+        if (commands.get(command) !== readLink(linkPath)) {
+          fs.rmSync(linkPath, { recursive: true, force: true });
+        }
+      }
+    }
+    for (const [command, target] of commands) {
+      const linkPath = path.join(binPath, command);
+      if (readLink(linkPath) !== target) {
+        fs.mkdirSync(binPath, { recursive: true });
+        fs.symlinkSync(target, linkPath);
+      }
+    }
+    removeIfEmpty(binPath);
+  }
+}
+
+// The file's mode is shared with every hardlink to it, so a file linked from the cache is copied before it changes
+function makeExecutable(filePath: string) {
+  const mode = fs.statSync(filePath).mode;
+  if ((mode & 0o111) !== 0o111) {
+    unlinkFileFromCache(filePath);
+    fs.chmodSync(filePath, mode | 0o111);
+  }
+}
+
+function readLink(linkPath: string): string | undefined {
+  try {
+    return fs.readlinkSync(linkPath);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// Deletes an empty .bin folder, and the node_modules folder it was in if that is now empty too (except the root one)
+function removeIfEmpty(binPath: string) {
+  for (const directory of [binPath, path.dirname(binPath)]) {
+    if (directory === nodeModulesPath || !fs.existsSync(directory) || fs.readdirSync(directory).length > 0) {
+      return;
+    }
+    fs.rmdirSync(directory);
+  }
+}
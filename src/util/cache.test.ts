@@ -0,0 +1,87 @@
+import fs from "fs";
+import path from "path";
+import {
+  addToCache,
+  cleanCache,
+  getCachedPackage,
+  linkFromCache,
+  readCacheManifest,
+  verifyCache,
+} from "./cache";
+import { globalCachePath, outputDir } from "./paths";
+
+const integrity = `sha512-${Buffer.from("fake-package-1.0.0").toString("base64")}`;
+
+function createExtractedPackage(): string {
+  const extractedPath = path.join(outputDir, "extracted-package");
+  fs.mkdirSync(path.join(extractedPath, "lib"), { recursive: true });
+  fs.writeFileSync(
+    path.join(extractedPath, "package.json"),
+    JSON.stringify({ name: "fake-package", version: "1.0.0" })
+  );
+  fs.writeFileSync(path.join(extractedPath, "lib", "index.js"), "module.exports = 1;");
+  return extractedPath;
+}
+
+describe("global cache", () => {
+  beforeEach(() => {
+    cleanCache();
+  });
+
+  it("stores packages by integrity and records them in the manifest", () => {
+    const cachedPath = addToCache(
+      "fake-package",
+      "1.0.0",
+      integrity,
+      createExtractedPackage()
+    );
+
+    expect(cachedPath.startsWith(path.join(globalCachePath, "content", "sha512"))).toBe(true);
+    expect(fs.existsSync(path.join(cachedPath, "lib", "index.js"))).toBe(true);
+    expect(readCacheManifest()["fake-package@1.0.0"]).toMatchObject({
+      name: "fake-package",
+      version: "1.0.0",
+      integrity,
+    });
+
+    expect(getCachedPackage("fake-package", "1.0.0")).toBe(cachedPath);
+    expect(getCachedPackage("fake-package", "1.0.0", integrity)).toBe(cachedPath);
+    expect(getCachedPackage("fake-package", "1.0.0", "sha512-other")).toBeUndefined();
+    expect(getCachedPackage("fake-package", "2.0.0")).toBeUndefined();
+  });
+
+  it("links cached packages into a destination", () => {
+    const cachedPath = addToCache(
+      "fake-package",
+      "1.0.0",
+      integrity,
+      createExtractedPackage()
+    );
+    const destPath = path.join(outputDir, "linked", "fake-package");
+
+    linkFromCache(cachedPath, destPath);
+
+    expect(fs.readFileSync(path.join(destPath, "lib", "index.js"), "utf8")).toBe(
+      "module.exports = 1;"
+    );
+    fs.rmSync(path.join(outputDir, "linked"), { recursive: true });
+  });
+
+  it("removes corrupt entries on verify", () => {
+    const cachedPath = addToCache(
+      "fake-package",
+      "1.0.0",
+      integrity,
+      createExtractedPackage()
+    );
+    expect(verifyCache().verified).toHaveLength(1);
+
+    fs.writeFileSync(path.join(cachedPath, "lib", "index.js"), "tampered");
+    const { verified, removed } = verifyCache();
+
+    expect(verified).toHaveLength(0);
+    expect(removed.map((entry) => entry.name)).toEqual(["fake-package"]);
+    expect(fs.existsSync(cachedPath)).toBe(false);
+    expect(readCacheManifest()).toEqual({});
+  });
+});
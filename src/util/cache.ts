@@ -0,0 +1,295 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { cacheManifestPath, globalCachePath, metadataCachePath } from "./paths";
+
+/**
+ * name, version: the package this entry was extracted from
+ * integrity: the SRI integrity string of the tarball, which also determines where the entry is stored
+ * path: the directory holding the extracted package, relative to the global cache
+ * contentDigest: a sha512 digest of every extracted file, used to detect corruption
+ */
+export interface CacheEntry {
+  name: string;
+  version: string;
+  integrity: string;
+  path: string;
+  contentDigest: string;
+  addedAt: string;
+}
+
+// Cache entries keyed by "name@version"
+export type CacheManifest = Record<string, CacheEntry>;
+
+/**
+ * How installs use the cache for registry metadata and tarballs
+ *
+ * online: revalidate cached metadata with the registry, which only resends it when it changed
+ * prefer-offline: use cached metadata and tarballs as they are, only going to the registry for what isn't cached
+ * offline: never go to the registry, failing for anything that isn't cached
+ */
+export type CacheMode = "online" | "prefer-offline" | "offline";
+
+/**
+ * Picks the cache mode from the command line flags, falling back to .npmrc's offline and prefer-offline settings
+ */
+export function getCacheMode(
+  options: { offline?: boolean; preferOffline?: boolean },
+  settings: Record<string, string>
+): CacheMode {
+  if (options.offline ?? settings["offline"] === "true") {
+    return "offline";
+  }
+  if (options.preferOffline ?? settings["prefer-offline"] === "true") {
+    return "prefer-offline";
+  }
+  return "online";
+}
+
+/**
+ * url: the URL the metadata was fetched from
+ * etag, lastModified: the validators the registry sent, if any, to ask it whether the metadata has changed since
+ * data: the response body, validated again whenever it is read
+ */
+export interface CachedMetadata {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: string;
+  data: unknown;
+}
+
+export interface CacheVerification {
+  verified: CacheEntry[];
+  removed: CacheEntry[];
+}
+
+function getCacheKey(name: string, version: string): string {
+  return `${name}@${version}`;
+}
+
+/**
+ * Converts an integrity string such as "sha512-<base64>" into a store location such as "content/sha512/ab/cdef..."
+ */
+function getContentPath(integrity: string): string {
+  const [algorithm, digest] = integrity.split("-", 2);
+  const hex = Buffer.from(digest, "base64").toString("hex");
+  return path.join("content", algorithm, hex.slice(0, 2), hex.slice(2));
+}
+
+/**
+ * Lists every file below dir relative to it, in a stable order
+ */
+function listFiles(dir: string, prefix: string = ""): string[] {
+  const files: string[] = [];
+  const entries = fs
+    .readdirSync(path.join(dir, prefix), { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const relativePath = path.join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(dir, relativePath));
+    } else {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+export function hashDirectory(dir: string): string {
+  const hash = crypto.createHash("sha512");
+  for (const file of listFiles(dir)) {
+    hash.update(file.split(path.sep).join("/"));
+    hash.update("\0");
+    hash.update(fs.readFileSync(path.join(dir, file)));
+    hash.update("\0");
+  }
+  return `sha512-${hash.digest("base64")}`;
+}
+
+export function readCacheManifest(): CacheManifest {
+  if (!fs.existsSync(cacheManifestPath)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(cacheManifestPath, "utf8"));
+}
+
+function writeCacheManifest(manifest: CacheManifest) {
+  fs.mkdirSync(globalCachePath, { recursive: true });
+  // Renamed into place, so that an interrupted write or a concurrent install never reads half a manifest
+  const tempPath = `${cacheManifestPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(manifest, null, 2));
+  fs.renameSync(tempPath, cacheManifestPath);
+}
+
+/**
+ * Returns the absolute path of the cached copy of name@version, or undefined if it isn't cached. When an integrity
+ * string is given, the cached copy must have been extracted from that exact tarball.
+ */
+export function getCachedPackage(
+  name: string,
+  version: string,
+  integrity?: string
+): string | undefined {
+  const entry = readCacheManifest()[getCacheKey(name, version)];
+  if (!entry || (integrity && entry.integrity !== integrity)) {
+    return undefined;
+  }
+
+  const entryPath = path.join(globalCachePath, entry.path);
+  return fs.existsSync(entryPath) ? entryPath : undefined;
+}
+
+/**
+ * Moves an extracted package into the store and records it in the manifest
+ *
+ * @returns The absolute path of the cached copy
+ */
+export function addToCache(
+  name: string,
+  version: string,
+  integrity: string,
+  extractedPath: string
+): string {
+  const relativePath = getContentPath(integrity);
+  const entryPath = path.join(globalCachePath, relativePath);
+
+  // Identical content may already be stored under another name, in which case the new copy is redundant
+  if (fs.existsSync(entryPath)) {
+    fs.rmSync(extractedPath, { recursive: true, force: true });
+  } else {
+    fs.mkdirSync(path.dirname(entryPath), { recursive: true });
+    try {
+      fs.renameSync(extractedPath, entryPath);
+    } catch (e) {
+      // Another install of the same content (under a different name) may have moved its copy in first
+      if (!fs.existsSync(entryPath)) {
+        throw e;
+      }
+      fs.rmSync(extractedPath, { recursive: true, force: true });
+    }
+  }
+
+  const manifest = readCacheManifest();
+  manifest[getCacheKey(name, version)] = {
+    name,
+    version,
+    integrity,
+    path: relativePath,
+    contentDigest: hashDirectory(entryPath),
+    addedAt: new Date().toISOString(),
+  };
+  writeCacheManifest(manifest);
+
+  return entryPath;
+}
+
+/**
+ * Recreates a cached package at destPath, hardlinking each file from the store and falling back to a copy when
+ * hardlinks aren't possible (e.g. across devices)
+ */
+export function linkFromCache(cachedPath: string, destPath: string) {
+  for (const file of listFiles(cachedPath)) {
+    const source = path.join(cachedPath, file);
+    const target = path.join(destPath, file);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    try {
+      fs.linkSync(source, target);
+    } catch (e) {
+      fs.copyFileSync(source, target);
+    }
+  }
+}
+
+/**
+ * Replaces a file that is hardlinked from the store with a copy of its own, so that changing it doesn't change the
+ * cached copy
+ */
+export function unlinkFileFromCache(filePath: string) {
+  if (fs.lstatSync(filePath).nlink > 1) {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.copyFileSync(filePath, tempPath);
+    fs.renameSync(tempPath, filePath);
+  }
+}
+
+/**
+ * Replaces every file below destPath that is hardlinked from the store with a copy of its own, for packages that
+ * change their own files (e.g. in a build script)
+ */
+export function unlinkFromCache(destPath: string) {
+  for (const file of listFiles(destPath)) {
+    unlinkFileFromCache(path.join(destPath, file));
+  }
+}
+
+/**
+ * Checks every entry against its recorded digest, removing entries that are missing or corrupt as well as stored
+ * content that no entry refers to
+ */
+export function verifyCache(): CacheVerification {
+  const manifest = readCacheManifest();
+  const verification: CacheVerification = { verified: [], removed: [] };
+
+  for (const [key, entry] of Object.entries(manifest)) {
+    const entryPath = path.join(globalCachePath, entry.path);
+    if (fs.existsSync(entryPath) && hashDirectory(entryPath) === entry.contentDigest) {
+      verification.verified.push(entry);
+    } else {
+      verification.removed.push(entry);
+      delete manifest[key];
+    }
+  }
+
+  // Only delete content once no remaining entry refers to it, as entries can share content
+  const referencedPaths = new Set(Object.values(manifest).map((entry) => entry.path));
+  const contentRoot = path.join(globalCachePath, "content");
+  if (fs.existsSync(contentRoot)) {
+    for (const algorithm of fs.readdirSync(contentRoot)) {
+      for (const bucket of fs.readdirSync(path.join(contentRoot, algorithm))) {
+        for (const digest of fs.readdirSync(path.join(contentRoot, algorithm, bucket))) {
+          const relativePath = path.join("content", algorithm, bucket, digest);
+          if (!referencedPaths.has(relativePath)) {
+            fs.rmSync(path.join(globalCachePath, relativePath), {
+              recursive: true,
+              force: true,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  writeCacheManifest(manifest);
+  return verification;
+}
+
+function getMetadataPath(url: string): string {
+  return path.join(metadataCachePath, `${crypto.createHash("sha256").update(url).digest("hex")}.json`);
+}
+
+/**
+ * Returns the metadata last fetched from url, or undefined if there is none (or it is unreadable)
+ */
+export function getCachedMetadata(url: string): CachedMetadata | undefined {
+  try {
+    const entry: CachedMetadata = JSON.parse(fs.readFileSync(getMetadataPath(url), "utf8"));
+    return entry.url === url ? entry : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+export function addMetadataToCache(entry: CachedMetadata) {
+  fs.mkdirSync(metadataCachePath, { recursive: true });
+  // Written to a temporary file first, so that concurrent installs never read half an entry
+  const entryPath = getMetadataPath(entry.url);
+  const tempPath = `${entryPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(entry));
+  fs.renameSync(tempPath, entryPath);
+}
+
+export function cleanCache() {
+  fs.rmSync(globalCachePath, { recursive: true, force: true });
+}
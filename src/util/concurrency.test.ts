@@ -0,0 +1,61 @@
+import { createKeyedMutex, createLimiter } from "./concurrency";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("createLimiter", () => {
+  it("never runs more than the given number of tasks at once", async () => {
+    const limit = createLimiter(2);
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((n) =>
+        limit(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await delay(5);
+          running--;
+          return n * 2;
+        })
+      )
+    );
+
+    expect(results).toEqual([2, 4, 6, 8, 10]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("keeps going after a task fails", async () => {
+    const limit = createLimiter(1);
+
+    await expect(limit(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    await expect(limit(async () => "ok")).resolves.toBe("ok");
+  });
+
+  it("rejects invalid concurrency", () => {
+    expect(() => createLimiter(0)).toThrow("positive integer");
+  });
+});
+
+describe("createKeyedMutex", () => {
+  it("serializes tasks with the same key only", async () => {
+    const mutex = createKeyedMutex();
+    const events: string[] = [];
+
+    async function task(name: string, ms: number) {
+      events.push(`start ${name}`);
+      await delay(ms);
+      events.push(`end ${name}`);
+    }
+
+    await Promise.all([
+      mutex("a", () => task("a1", 10)),
+      mutex("a", () => task("a2", 1)),
+      mutex("b", () => task("b1", 1)),
+    ]);
+
+    expect(events.indexOf("end a1")).toBeLessThan(events.indexOf("start a2"));
+    expect(events.indexOf("start b1")).toBeLessThan(events.indexOf("end a1"));
+  });
+});
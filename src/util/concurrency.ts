@@ -0,0 +1,61 @@
+export const DEFAULT_CONCURRENCY = 8;
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export type KeyedMutex = <T>(key: string, task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most `concurrency` tasks at a time, starting queued tasks in the order they were
+ * submitted
+ */
+export function createLimiter(concurrency: number): Limiter {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+  }
+
+  let running = 0;
+  const queue: (() => void)[] = [];
+
+  function next() {
+    if (running < concurrency && queue.length > 0) {
+      running++;
+      queue.shift()!();
+    }
+  }
+
+  return <T>(task: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            running--;
+            next();
+          });
+      });
+      next();
+    });
+}
+
+/**
+ * Creates a mutex that runs tasks sharing a key one after another, while tasks with different keys run freely
+ */
+export function createKeyedMutex(): KeyedMutex {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return <T>(key: string, task: () => Promise<T>) => {
+    const previous = tails.get(key) || Promise.resolve();
+    const result = previous.then(task);
+    const tail = result.catch(() => {});
+    tails.set(key, tail);
+
+    // Forget the key once nothing else is queued behind this task
+    tail.then(() => {
+      if (tails.get(key) === tail) {
+        tails.delete(key);
+      }
+    });
+
+    return result;
+  };
+}
@@ -1,23 +1,51 @@
 import fs from "fs";
 import path from "path";
 import { DependencyInstallation } from "../types";
+import { Readable } from "stream";
+import { addToCache, cleanCache, readCacheManifest } from "./cache";
+import * as http from "./http";
 import { installSinglePackage } from "./download";
-import { nodeModulesPath } from "./paths";
+import { IntegrityError } from "./integrity";
+import { createLocalRegistryClient, publishToLocalRegistry } from "./localRegistry";
+import { cacheTempPath, nodeModulesPath, outputDir } from "./paths";
+import { createRegistryClient, OfflineError } from "./registry";
+
+const registryPath = path.join(outputDir, "download-registry");
+const registry = createLocalRegistryClient(registryPath);
+
+async function publish(name: string, version: string) {
+  const packagePath = path.join(outputDir, "download-fixture");
+  fs.rmSync(packagePath, { recursive: true, force: true });
+  fs.mkdirSync(packagePath, { recursive: true });
+  fs.writeFileSync(path.join(packagePath, "package.json"), JSON.stringify({ name, version }));
+  fs.writeFileSync(path.join(packagePath, "index.js"), `module.exports = "${name}@${version}";`);
+  await publishToLocalRegistry(registryPath, packagePath);
+  fs.rmSync(packagePath, { recursive: true, force: true });
+}
 
 describe("installSinglePackage", () => {
+  beforeAll(async () => {
+    await publish("fixture-package", "2.0.0");
+    await publish("@fixtures/scoped", "7.7.0");
+  });
+
+  afterAll(() => {
+    fs.rmSync(registryPath, { recursive: true, force: true });
+  });
+
   it("downloads and installs to a specified directory", async () => {
     const dep: DependencyInstallation = {
-      name: "is-thirteen",
+      name: "fixture-package",
       version: "2.0.0",
       parentDirectory: "test/node_modules",
     };
 
-    await installSinglePackage(dep);
+    await installSinglePackage(dep, registry);
     const modulePath = path.join(
       nodeModulesPath,
       "test",
       "node_modules",
-      "is-thirteen"
+      "fixture-package"
     );
 
     // Check if the directories exist
@@ -34,12 +62,12 @@ describe("installSinglePackage", () => {
 
   it("downloads and installs to the root of node_modules", async () => {
     const dep: DependencyInstallation = {
-      name: "is-thirteen",
+      name: "fixture-package",
       version: "2.0.0",
     };
 
-    await installSinglePackage(dep);
-    const modulePath = path.join(nodeModulesPath, "is-thirteen");
+    await installSinglePackage(dep, registry);
+    const modulePath = path.join(nodeModulesPath, "fixture-package");
 
     // Check if the directories exist
     expect(fs.existsSync(modulePath)).toBe(true);
@@ -52,4 +80,129 @@ describe("installSinglePackage", () => {
     expect(packageJson.name).toBe(dep.name);
     expect(packageJson.version).toBe(dep.version);
   });
+
+  it("stores downloaded packages in the global cache", async () => {
+    const dep: DependencyInstallation = {
+      name: "fixture-package",
+      version: "2.0.0",
+      parentDirectory: "cached/node_modules",
+    };
+
+    await installSinglePackage(dep, registry);
+
+    const entry = readCacheManifest()["fixture-package@2.0.0"];
+    expect(entry).toBeDefined();
+    expect(entry.integrity.startsWith("sha512-")).toBe(true);
+    expect(
+      fs.existsSync(
+        path.join(nodeModulesPath, "cached", "node_modules", "fixture-package", "package.json")
+      )
+    ).toBe(true);
+  });
+
+  it("fails when the tarball doesn't match the expected integrity", async () => {
+    const dep: DependencyInstallation = {
+      name: "fixture-package",
+      version: "2.0.0",
+      parentDirectory: "tampered/node_modules",
+      integrity: `sha512-${Buffer.from("something else").toString("base64")}`,
+    };
+
+    await expect(installSinglePackage(dep, registry)).rejects.toThrow(IntegrityError);
+    expect(fs.existsSync(path.join(nodeModulesPath, "tampered"))).toBe(false);
+  });
+
+  it("installs scoped packages into their scope directory", async () => {
+    const dep: DependencyInstallation = {
+      name: "@fixtures/scoped",
+      version: "7.7.0",
+      parentDirectory: "scoped/node_modules",
+    };
+
+    await installSinglePackage(dep, registry);
+    const packageJsonPath = path.join(
+      nodeModulesPath,
+      "scoped",
+      "node_modules",
+      "@fixtures",
+      "scoped",
+      "package.json"
+    );
+
+    expect(fs.existsSync(packageJsonPath)).toBe(true);
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+    expect(packageJson.name).toBe(dep.name);
+    expect(packageJson.version).toBe(dep.version);
+  });
+
+  it("installs a locked package from the cache when offline, and fails for one that isn't cached", async () => {
+    const integrity = `sha512-${Buffer.from("offline-package-1.0.0").toString("base64")}`;
+    const extractedPath = path.join(nodeModulesPath, "offline-extracted");
+    fs.mkdirSync(extractedPath, { recursive: true });
+    fs.writeFileSync(
+      path.join(extractedPath, "package.json"),
+      JSON.stringify({ name: "offline-package", version: "1.0.0" })
+    );
+    addToCache("offline-package", "1.0.0", integrity, extractedPath);
+    // Left over from an older copy, which the cached one replaces as a whole
+    const stalePath = path.join(nodeModulesPath, "offline", "node_modules", "offline-package", "stale.js");
+    fs.mkdirSync(path.dirname(stalePath), { recursive: true });
+    fs.writeFileSync(stalePath, "");
+    const requestMocks = [jest.spyOn(http, "request"), jest.spyOn(http, "requestJson")];
+
+    await installSinglePackage(
+      { name: "offline-package", version: "1.0.0", parentDirectory: "offline/node_modules", integrity },
+      createRegistryClient("offline")
+    );
+    expect(
+      fs.existsSync(path.join(nodeModulesPath, "offline", "node_modules", "offline-package", "package.json"))
+    ).toBe(true);
+    expect(fs.existsSync(stalePath)).toBe(false);
+
+    await expect(
+      installSinglePackage(
+        { name: "offline-package", version: "2.0.0", parentDirectory: "offline/node_modules" },
+        createRegistryClient("offline")
+      )
+    ).rejects.toThrow(OfflineError);
+    for (const requestMock of requestMocks) {
+      expect(requestMock).not.toHaveBeenCalled();
+      requestMock.mockRestore();
+    }
+  });
+
+  it("downloads different packages in parallel", async () => {
+    cleanCache();
+    const parentDirectory = "parallel/node_modules";
+
+    await Promise.all([
+      installSinglePackage({ name: "fixture-package", version: "2.0.0", parentDirectory }, registry),
+      installSinglePackage({ name: "@fixtures/scoped", version: "7.7.0", parentDirectory }, registry),
+    ]);
+
+    const installedPath = path.join(nodeModulesPath, "parallel", "node_modules");
+    expect(fs.readdirSync(installedPath).sort()).toEqual(["@fixtures", "fixture-package"]);
+    expect(fs.readdirSync(path.join(installedPath, "@fixtures"))).toEqual(["scoped"]);
+  });
+
+  it("fails on a corrupt tarball without leaving anything behind", async () => {
+    const corruptRegistry = {
+      ...registry,
+      fetchTarball: async () => Readable.from([Buffer.from("not a tarball")]),
+    };
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    // An integrity that isn't cached, so the tarball has to be downloaded
+    const integrity = `sha512-${Buffer.from("corrupt").toString("base64")}`;
+
+    await expect(
+      installSinglePackage(
+        { name: "@fixtures/scoped", version: "7.7.0", parentDirectory: "corrupt/node_modules", integrity },
+        corruptRegistry
+      )
+    ).rejects.toThrow("incorrect header check");
+    expect(fs.existsSync(path.join(nodeModulesPath, "corrupt"))).toBe(false);
+    expect(fs.readdirSync(cacheTempPath)).toEqual([]);
+    jest.restoreAllMocks();
+  });
 });
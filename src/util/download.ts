@@ -1,93 +1,190 @@
 import fs from "fs";
-import https from "https";
 import path from "path";
-import { Dependency, DependencyInstallation } from "../types";
-import { nodeModulesPath } from "./paths";
-import { getPackageInfo } from "./registry";
-const tar = require("tar");
+import { DependencyInstallation, InstallationPlan } from "../types";
+import { addToCache, getCachedPackage, linkFromCache } from "./cache";
+import {
+  createKeyedMutex,
+  createLimiter,
+  DEFAULT_CONCURRENCY,
+} from "./concurrency";
+import { extractExternalPackage } from "./external";
+import { retryBodyErrors } from "./http";
+import {
+  createTarballHasher,
+  IntegrityError,
+  shasumToIntegrity,
+  verifyIntegrity,
+} from "./integrity";
+import { getInstallLocation } from "./lockfile";
+import { cacheTempPath, nodeModulesPath } from "./paths";
+import { createRegistryClient, RegistryClient } from "./registry";
+import { extractTarball, moveIntoPlace } from "./tarball";
 
+// Serializes work on the same name@version, so that concurrent installs of one version download it only once
+const packageMutex = createKeyedMutex();
+
+/**
+ * Installs the plan with at most `concurrency` packages downloading at once. A nested package is only started once the
+ * package it is nested in has been installed, so the end result matches installing the plan in order.
+ */
 export async function installPackages(
-  dependencies: Dependency[]
+  dependencies: InstallationPlan,
+  concurrency: number = DEFAULT_CONCURRENCY,
+  registry: RegistryClient = createRegistryClient()
 ): Promise<void> {
+  const limit = createLimiter(concurrency);
+  const installations = new Map<string, Promise<void>>();
+
   for (const dep of dependencies) {
-    await installSinglePackage(dep);
+    // "a/node_modules/b/node_modules" is owned by the package at "node_modules/a/node_modules/b"
+    const owner = dep.parentDirectory
+      ? installations.get(
+          `node_modules/${dep.parentDirectory.replace(/\/node_modules$/, "")}`
+        )
+      : undefined;
+
+    const location = getInstallLocation(dep);
+    const previous = installations.get(location);
+    installations.set(
+      location,
+      Promise.all([owner, previous]).then(() =>
+        limit(() => installSinglePackage(dep, registry))
+      )
+    );
   }
+
+  await Promise.all(installations.values());
+}
+
+function getDestinationPath(dep: DependencyInstallation): string {
+  const destParentPath = dep.parentDirectory
+    ? path.join(nodeModulesPath, dep.parentDirectory)
+    : nodeModulesPath;
+  return path.join(destParentPath, dep.name);
 }
 
 async function downloadToNodeModules(
   dep: DependencyInstallation,
-  shasum: string
+  tarballUrl: string,
+  shasum: string,
+  integrity: string,
+  registry: RegistryClient
 ): Promise<void> {
-  // Construct the download URL
-  const url = `https://registry.npmjs.org/${dep.name}/-/${dep.name}-${dep.version}.tgz`;
-  const tarballPath = path.join(
-    nodeModulesPath,
-    `${dep.name.replace("@", "%40").replace("/", "%2F")}-${dep.version}.tgz`
+  // Aliased packages are cached under their registry name
+  const packageName = dep.packageName || dep.name;
+
+  // Link from the global cache, populating it first if this exact tarball hasn't been extracted before
+  const cachedPath = await packageMutex(
+    `${packageName}@${dep.version}`,
+    async () =>
+      getCachedPackage(packageName, dep.version, integrity) ||
+      (await downloadToCache(dep, tarballUrl, shasum, integrity, registry))
   );
+  linkIntoPlace(cachedPath, getDestinationPath(dep));
+}
 
-  // Download the tarball
-  await new Promise((resolve, reject) => {
-    const fileStream = fs.createWriteStream(tarballPath);
-
-    https
-      .get(url, (response) => {
-        response.pipe(fileStream);
-
-        fileStream.on("finish", () => {
-          fileStream.close();
-          resolve(null);
-        });
-      })
-      .on("error", (error) => {
-        fileStream.close();
-        fs.unlink(tarballPath, () => {}); // Delete the file if an error occurs
-        console.error(
-          `Error downloading package ${dep.name}@${dep.version}:`,
-          error
-        );
-        reject(error);
-      });
-  });
-
-  // Extract the tarball
+/**
+ * Links a cached package into a hidden folder next to destPath and moves it into place from there, so that an install
+ * that fails halfway never leaves a partial package behind
+ */
+function linkIntoPlace(cachedPath: string, destPath: string) {
+  fs.mkdirSync(path.dirname(destPath), { recursive: true });
+  const tempPath = fs.mkdtempSync(path.join(path.dirname(destPath), `.${path.basename(destPath)}-`));
   try {
-    await tar.extract({
-      file: tarballPath,
-      cwd: nodeModulesPath,
-    });
+    linkFromCache(cachedPath, tempPath);
+    moveIntoPlace(tempPath, destPath);
   } catch (e) {
-    console.error(`Error extracting package ${dep.name}@${dep.version}:`, e);
-    return;
-  } finally {
-    // Delete the tarball
-    fs.unlinkSync(tarballPath);
+    fs.rmSync(tempPath, { recursive: true, force: true });
+    throw e;
   }
+}
 
-  // Move to target directory
-  const destParentPath = dep.parentDirectory
-    ? path.join(nodeModulesPath, dep.parentDirectory)
-    : nodeModulesPath;
-  if (!fs.existsSync(destParentPath)) {
-    fs.mkdirSync(destParentPath, { recursive: true });
+async function downloadToCache(
+  dep: DependencyInstallation,
+  url: string,
+  shasum: string,
+  integrity: string,
+  registry: RegistryClient
+): Promise<string> {
+  const packageSpec = `${dep.name}@${dep.version}`;
+
+  // Each download gets a folder of its own, so concurrent installs never touch each other's files
+  fs.mkdirSync(cacheTempPath, { recursive: true });
+  try {
+    // A connection that drops halfway through starts the download over in a fresh folder
+    return await retryBodyErrors(url, { resource: `the tarball of ${packageSpec}` }, async () => {
+      const extractPath = fs.mkdtempSync(path.join(cacheTempPath, "extract-"));
+      try {
+        // Extract the tarball as it streams in, hashing it along the way
+        const hasher = createTarballHasher();
+        const tarball = await registry.fetchTarball(url, packageSpec);
+        const packagePath = await extractTarball(tarball, extractPath, (chunk) => hasher.update(chunk));
+
+        // Refuse to cache anything that doesn't match the published digests
+        verifyIntegrity(packageSpec, hasher.digest(), { shasum, integrity });
+
+        // Move into the global cache
+        return addToCache(dep.packageName || dep.name, dep.version, integrity, packagePath);
+      } finally {
+        fs.rmSync(extractPath, { recursive: true, force: true });
+      }
+    });
+  } catch (e) {
+    if (!(e instanceof IntegrityError)) {
+      console.error(`Error downloading package ${packageSpec}:`, e);
+    }
+    throw e;
   }
-  const destPath = path.join(destParentPath, dep.name);
-  fs.renameSync(path.join(nodeModulesPath, "package"), destPath);
 }
 
-export async function installSinglePackage(dep: DependencyInstallation) {
+export async function installSinglePackage(
+  dep: DependencyInstallation,
+  registry: RegistryClient = createRegistryClient()
+) {
   console.log(`Installing ${dep.name}@${dep.version}...`);
 
   try {
-    const data = await getPackageInfo(dep);
+    // Local paths and tarball URLs bypass the registry's metadata and the cache
+    if (dep.external && dep.resolved) {
+      await extractExternalPackage(dep.resolved, getDestinationPath(dep), registry, dep.integrity);
+      return;
+    }
+
+    // A locked tarball that is already cached is identical to the published one, so the registry has nothing to add
+    const packageName = dep.packageName || dep.name;
+    if (dep.integrity) {
+      const cachedPath = getCachedPackage(packageName, dep.version, dep.integrity);
+      if (cachedPath) {
+        linkIntoPlace(cachedPath, getDestinationPath(dep));
+        return;
+      }
+    }
+
+    const data = await registry.getVersion({ name: packageName, version: dep.version });
     await downloadToNodeModules(
       {
         ...dep,
         version: data.version,
       },
-      data.dist.shasum
+      dep.resolved || data.dist.tarball,
+      data.dist.shasum,
+      // The lockfile's integrity takes precedence, so a tarball that changed since locking is caught too
+      dep.integrity ||
+        data.dist.integrity ||
+        shasumToIntegrity(data.dist.shasum),
+      registry
     );
   } catch (e) {
+    // A tarball that doesn't match its digest must never be installed, so fail the whole install
+    if (e instanceof IntegrityError) {
+      throw e;
+    }
+    // Optional packages are allowed to fail, e.g. when they aren't published for this platform
+    if (dep.optional) {
+      console.warn(`Skipping optional package ${dep.name}@${dep.version}:`, e);
+      return;
+    }
     console.error(`Error installing package ${dep.name}@${dep.version}:`, e);
-    return;
+    throw e;
   }
 }
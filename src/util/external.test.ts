@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import { extractExternalPackage, readExternalManifest } from "./external";
+import { createTarballHasher, IntegrityError } from "./integrity";
+import { outputDir } from "./paths";
+import { createRegistryClient } from "./registry";
+const tar = require("tar");
+
+const sourcePath = path.join(outputDir, "external-source");
+
+describe("external packages", () => {
+  beforeAll(async () => {
+    fs.mkdirSync(path.join(sourcePath, "package", "node_modules", "dep"), {
+      recursive: true,
+    });
+    fs.writeFileSync(
+      path.join(sourcePath, "package", "package.json"),
+      JSON.stringify({ name: "external-package", version: "1.2.3" })
+    );
+    fs.writeFileSync(path.join(sourcePath, "package", "index.js"), "module.exports = 1;");
+    await tar.create(
+      { gzip: true, file: path.join(sourcePath, "external-package.tgz"), cwd: sourcePath },
+      ["package"]
+    );
+  });
+
+  it("reads the manifest of directories and tarballs", async () => {
+    const fromDirectory = await readExternalManifest(
+      `file:${path.join(sourcePath, "package")}`
+    );
+    const fromTarball = await readExternalManifest(
+      `file:${path.join(sourcePath, "external-package.tgz")}`
+    );
+
+    expect(fromDirectory).toEqual({ name: "external-package", version: "1.2.3" });
+    expect(fromTarball).toEqual({ name: "external-package", version: "1.2.3" });
+  });
+
+  it("copies directories without their node_modules", async () => {
+    const destPath = path.join(outputDir, "external-dest", "from-directory");
+    await extractExternalPackage(`file:${path.join(sourcePath, "package")}`, destPath);
+
+    expect(fs.existsSync(path.join(destPath, "index.js"))).toBe(true);
+    expect(fs.existsSync(path.join(destPath, "node_modules"))).toBe(false);
+  });
+
+  it("extracts tarballs without their top-level folder", async () => {
+    const destPath = path.join(outputDir, "external-dest", "from-tarball");
+    await extractExternalPackage(
+      `file:${path.join(sourcePath, "external-package.tgz")}`,
+      destPath
+    );
+
+    expect(fs.existsSync(path.join(destPath, "package.json"))).toBe(true);
+    expect(fs.existsSync(path.join(destPath, "index.js"))).toBe(true);
+  });
+
+  it("pins the integrity of tarball URLs and refuses to install one that changed", async () => {
+    const tarballPath = path.join(sourcePath, "external-package.tgz");
+    const registry = { ...createRegistryClient(), fetchTarball: async () => fs.createReadStream(tarballPath) };
+    const hasher = createTarballHasher();
+    hasher.update(fs.readFileSync(tarballPath));
+    const { sha512 } = hasher.digest();
+
+    const manifest = await readExternalManifest("https://example.com/external-package.tgz", registry);
+    expect(manifest.integrity).toBe(sha512);
+
+    const destPath = path.join(outputDir, "external-dest", "from-url");
+    await extractExternalPackage("https://example.com/external-package.tgz", destPath, registry, sha512);
+    expect(fs.existsSync(path.join(destPath, "index.js"))).toBe(true);
+
+    const changed = `sha512-${Buffer.from("something else").toString("base64")}`;
+    await expect(
+      extractExternalPackage("https://example.com/external-package.tgz", destPath, registry, changed)
+    ).rejects.toThrow(IntegrityError);
+    // The installed copy is untouched, and nothing is left next to it
+    expect(fs.existsSync(path.join(destPath, "index.js"))).toBe(true);
+    expect(fs.readdirSync(path.dirname(destPath)).filter((entry) => entry.startsWith("."))).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { retryBodyErrors } from "./http";
+import { createTarballHasher, TarballDigests, verifyIntegrity } from "./integrity";
+import { cacheTempPath, outputDir } from "./paths";
+import { PackageSpec, resolveFileSpec } from "./packageSpec";
+import { createRegistryClient, RegistryClient } from "./registry";
+import { extractTarball, moveIntoPlace } from "./tarball";
+
+/**
+ * The parts of a package.json that are needed to resolve a package from a path or URL, and for a tarball URL, the
+ * integrity of the tarball it was read from (local files can change at any time, so they aren't pinned)
+ */
+export interface ExternalManifest {
+  name: string;
+  version: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+  integrity?: string;
+}
+
+/**
+ * Returns where a file or remote spec points, in the form recorded as a plan entry's `resolved`: "file:<absolute path>"
+ * for local directories and tarballs, or the URL itself
+ */
+export function getExternalLocation(spec: PackageSpec): string {
+  return spec.type === "file"
+    ? `file:${resolveFileSpec(spec, outputDir)}`
+    : spec.fetchSpec;
+}
+
+function isDirectory(resolved: string): boolean {
+  return (
+    resolved.startsWith("file:") &&
+    fs.existsSync(resolved.slice("file:".length)) &&
+    fs.statSync(resolved.slice("file:".length)).isDirectory()
+  );
+}
+
+// Extracts the tarball at `resolved` into directory as it streams in, starting over if a download fails halfway
+async function extractExternalTarball(
+  resolved: string,
+  registry: RegistryClient,
+  directory: string
+): Promise<{ packagePath: string; digests: TarballDigests }> {
+  return retryBodyErrors(resolved, {}, async () => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    fs.mkdirSync(directory, { recursive: true });
+    const tarball: Readable = resolved.startsWith("file:")
+      ? fs.createReadStream(resolved.slice("file:".length))
+      : await registry.fetchTarball(resolved);
+    const hasher = createTarballHasher();
+    const packagePath = await extractTarball(tarball, directory, (chunk) => hasher.update(chunk));
+    return { packagePath, digests: hasher.digest() };
+  });
+}
+
+/**
+ * Reads the package.json of a local directory, local tarball or tarball URL. Tarballs are streamed into a folder of
+ * their own under global-cache/tmp, which is deleted again.
+ */
+export async function readExternalManifest(
+  resolved: string,
+  registry: RegistryClient = createRegistryClient()
+): Promise<ExternalManifest> {
+  let manifest: ExternalManifest;
+
+  if (isDirectory(resolved)) {
+    manifest = JSON.parse(
+      fs.readFileSync(path.join(resolved.slice("file:".length), "package.json"), "utf8")
+    );
+  } else {
+    fs.mkdirSync(cacheTempPath, { recursive: true });
+    const extractPath = fs.mkdtempSync(path.join(cacheTempPath, "manifest-"));
+    try {
+      const { packagePath, digests } = await extractExternalTarball(resolved, registry, extractPath);
+      manifest = JSON.parse(fs.readFileSync(path.join(packagePath, "package.json"), "utf8"));
+      if (!resolved.startsWith("file:")) {
+        manifest.integrity = digests.sha512;
+      }
+    } finally {
+      fs.rmSync(extractPath, { recursive: true, force: true });
+    }
+  }
+
+  if (!manifest.name || !manifest.version) {
+    throw new Error(`The package.json of ${resolved} must have a name and a version`);
+  }
+  return manifest;
+}
+
+/**
+ * Copies a local directory, or extracts a local or remote tarball, into a hidden folder next to destPath and moves it
+ * into place from there. A tarball that doesn't match `integrity` (when given) is never moved into place.
+ */
+export async function extractExternalPackage(
+  resolved: string,
+  destPath: string,
+  registry: RegistryClient = createRegistryClient(),
+  integrity?: string
+) {
+  fs.mkdirSync(path.dirname(destPath), { recursive: true });
+  const tempPath = fs.mkdtempSync(path.join(path.dirname(destPath), `.${path.basename(destPath)}-`));
+  try {
+    if (isDirectory(resolved)) {
+      const sourcePath = resolved.slice("file:".length);
+      fs.cpSync(sourcePath, tempPath, {
+        recursive: true,
+        filter: (source) => path.relative(sourcePath, source).split(path.sep)[0] !== "node_modules",
+      });
+      moveIntoPlace(tempPath, destPath);
+      return;
+    }
+
+    const { packagePath, digests } = await extractExternalTarball(resolved, registry, tempPath);
+    verifyIntegrity(resolved, digests, { integrity });
+    moveIntoPlace(packagePath, destPath);
+  } finally {
+    fs.rmSync(tempPath, { recursive: true, force: true });
+  }
+}
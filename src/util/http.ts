@@ -0,0 +1,346 @@
+import http from "http";
+import https from "https";
+import net from "net";
+import tls from "tls";
+import { getRequestHeaders, loadNpmConfig } from "./npmrc";
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const MAX_REDIRECTS = 10;
+
+/**
+ * Thrown when a request fails for good (after any retries). `resource` says what was being fetched, such as "the
+ * metadata of semver" or "semver@7.6.0", and `url` the URL that failed, which is the last one for a redirect.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly resource: string,
+    readonly url: string,
+    reason: string
+  ) {
+    super(`Failed to fetch ${resource} from ${url}: ${reason}`);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Thrown when the server answers with an error status
+ */
+export class HttpStatusError extends HttpError {
+  constructor(
+    resource: string,
+    url: string,
+    readonly statusCode: number,
+    statusMessage: string = ""
+  ) {
+    super(resource, url, `${statusCode} ${statusMessage}`.trim());
+    this.name = "HttpStatusError";
+  }
+}
+
+/**
+ * Thrown when the server doesn't send anything for longer than the timeout
+ */
+export class HttpTimeoutError extends HttpError {
+  constructor(
+    resource: string,
+    url: string,
+    readonly timeout: number
+  ) {
+    super(resource, url, `no response for ${timeout}ms`);
+    this.name = "HttpTimeoutError";
+  }
+}
+
+/**
+ * Thrown when the connection fails, or goes quiet for longer than the timeout, while the body of a successful response
+ * streams in, after `request` has already resolved. Readers that use `retryBodyErrors` fetch the whole body again.
+ */
+export class HttpBodyError extends HttpError {
+  constructor(resource: string, url: string, reason: string) {
+    super(resource, url, reason);
+    this.name = "HttpBodyError";
+  }
+}
+
+/**
+ * resource: what is being fetched, for error messages (defaults to the URL)
+ * headers: extra request headers; the auth token for each URL, redirects included, is added automatically
+ * timeout: how long a request may go without receiving anything, in milliseconds
+ * retries: how many times a request that failed with a network error, a timeout, a 429 or a 5xx is tried again
+ * minRetryDelay, maxRetryDelay: the first retry waits minRetryDelay, and each one after that twice as long as the
+ * last, up to maxRetryDelay (a Retry-After header is honored within the same limit)
+ */
+export interface RequestOptions {
+  resource?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  retries?: number;
+  minRetryDelay?: number;
+  maxRetryDelay?: number;
+}
+
+/**
+ * The status, headers and parsed body of a JSON response
+ */
+export interface JsonResponse {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+function parseMilliseconds(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * The defaults for every request, from .npmrc's fetch-timeout, fetch-retries, fetch-retry-mintimeout and
+ * fetch-retry-maxtimeout settings
+ */
+export function getRequestDefaults(settings: Record<string, string> = loadNpmConfig().settings) {
+  return {
+    timeout: parseMilliseconds(settings["fetch-timeout"], 30000),
+    retries: parseMilliseconds(settings["fetch-retries"], 2),
+    minRetryDelay: parseMilliseconds(settings["fetch-retry-mintimeout"], 1000),
+    maxRetryDelay: parseMilliseconds(settings["fetch-retry-maxtimeout"], 10000),
+  };
+}
+
+/**
+ * Returns the proxy to use for url from the HTTPS_PROXY and HTTP_PROXY environment variables (or their lowercase
+ * forms), unless NO_PROXY lists its host or a domain it is in
+ */
+export function getProxy(url: string): URL | undefined {
+  const target = new URL(url);
+  const env = process.env;
+  const proxy = target.protocol === "https:"
+    ? env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy
+    : env.HTTP_PROXY || env.http_proxy;
+  if (!proxy) {
+    return undefined;
+  }
+
+  const noProxy = (env.NO_PROXY || env.no_proxy || "").split(",").map((entry) => entry.trim()).filter(Boolean);
+  const host = target.hostname.replace(/^\[(.*)\]$/, "$1");
+  const bypassed = noProxy.some((entry) => {
+    const domain = entry.replace(/:\d+$/, "").replace(/^\*?\./, "");
+    return entry === "*" || host === domain || host.endsWith(`.${domain}`);
+  });
+  return bypassed ? undefined : new URL(proxy);
+}
+
+function getProxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) {
+    return {};
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { "Proxy-Authorization": `Basic ${Buffer.from(credentials).toString("base64")}` };
+}
+
+// Opens a tunnel through the proxy to the target's host, for https requests
+function connectThroughProxy(proxy: URL, target: URL, timeout: number): Promise<net.Socket> {
+  const port = target.port || "443";
+  return new Promise((resolve, reject) => {
+    const request = (proxy.protocol === "https:" ? https : http).request({
+      host: proxy.hostname,
+      port: proxy.port || (proxy.protocol === "https:" ? 443 : 80),
+      method: "CONNECT",
+      path: `${target.hostname}:${port}`,
+      headers: { Host: `${target.hostname}:${port}`, ...getProxyAuthorization(proxy) },
+      timeout,
+    });
+    request.on("connect", (response, socket) => {
+      if (response.statusCode === 200) {
+        resolve(socket);
+      } else {
+        socket.destroy();
+        reject(new Error(`proxy ${proxy.host} refused the tunnel with ${response.statusCode}`));
+      }
+    });
+    request.on("timeout", () => request.destroy(new Error(`proxy ${proxy.host} didn't respond`)));
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+// Sends a single GET request, without following redirects or retrying
+async function send(url: string, headers: Record<string, string>, timeout: number): Promise<http.IncomingMessage> {
+  const target = new URL(url);
+  const proxy = getProxy(url);
+  const isHttps = target.protocol === "https:";
+
+  let options: http.RequestOptions;
+  if (!proxy) {
+    options = { headers };
+  } else if (isHttps) {
+    const socket = await connectThroughProxy(proxy, target, timeout);
+    options = {
+      headers,
+      agent: false,
+      createConnection: () => tls.connect({ socket, servername: target.hostname }),
+    };
+  } else {
+    // Plain http goes to the proxy itself, asking for the full URL
+    options = {
+      host: proxy.hostname,
+      port: proxy.port || 80,
+      path: url,
+      headers: { ...headers, Host: target.host, ...getProxyAuthorization(proxy) },
+    };
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = !proxy || isHttps
+      ? (isHttps ? https : http).get(url, options, resolve)
+      : http.get(options, resolve);
+    request.setTimeout(timeout, () => request.destroy(new TimeoutSignal()));
+    request.on("error", reject);
+  });
+}
+
+// Marks a request that was aborted by its timeout, so it can be reported as an HttpTimeoutError
+class TimeoutSignal extends Error {}
+
+function isRetryable(statusCode: number): boolean {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+function getRetryDelay(attempt: number, minDelay: number, maxDelay: number, retryAfter?: string): number {
+  const seconds = Number(retryAfter);
+  const delay = retryAfter && Number.isFinite(seconds) ? seconds * 1000 : minDelay * 2 ** attempt;
+  return Math.min(delay, maxDelay);
+}
+
+/**
+ * GETs url, following redirects and retrying transient failures with exponential backoff. Resolves with the response
+ * as soon as a successful (or 304 Not Modified) status arrives, leaving the body to the caller, so only failures before
+ * then are retried here. The timeout keeps applying while the body streams in; a body that fails is retried by
+ * reading it through `retryBodyErrors`.
+ */
+export async function request(url: string, options: RequestOptions = {}): Promise<http.IncomingMessage> {
+  const settings = { ...getRequestDefaults(), ...options };
+  const resource = options.resource || url;
+
+  for (let attempt = 0; ; attempt++) {
+    let currentUrl = url;
+    let retryAfter: string | undefined;
+    let failure: HttpError;
+    try {
+      for (let redirects = 0; ; redirects++) {
+        const response = await send(
+          currentUrl,
+          { ...options.headers, ...getRequestHeaders(currentUrl) },
+          settings.timeout
+        );
+        const statusCode = response.statusCode || 0;
+
+        if (REDIRECT_STATUSES.has(statusCode) && response.headers.location) {
+          response.resume();
+          if (redirects === MAX_REDIRECTS) {
+            throw new HttpError(resource, currentUrl, `more than ${MAX_REDIRECTS} redirects`);
+          }
+          currentUrl = new URL(response.headers.location, currentUrl).toString();
+          continue;
+        }
+        if ((statusCode >= 200 && statusCode < 300) || statusCode === 304) {
+          const timeoutError = new HttpBodyError(
+            resource,
+            currentUrl,
+            `no data for ${settings.timeout}ms while reading the response`
+          );
+          response.setTimeout(settings.timeout, () => response.destroy(timeoutError));
+          return response;
+        }
+
+        response.resume();
+        const error = new HttpStatusError(resource, currentUrl, statusCode, response.statusMessage);
+        if (!isRetryable(statusCode)) {
+          throw error;
+        }
+        retryAfter = response.headers["retry-after"];
+        failure = error;
+        break;
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        throw error;
+      }
+      failure = error instanceof TimeoutSignal
+        ? new HttpTimeoutError(resource, currentUrl, settings.timeout)
+        : new HttpError(resource, currentUrl, error instanceof Error ? error.message : String(error));
+    }
+
+    if (attempt >= settings.retries) {
+      throw failure;
+    }
+    const delay = getRetryDelay(attempt, settings.minRetryDelay, settings.maxRetryDelay, retryAfter);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+// Codes of the errors a response emits when its connection drops while the body streams in
+const BODY_FAILURE_CODES = new Set(["ECONNRESET", "ECONNABORTED", "EPIPE", "ETIMEDOUT"]);
+
+// Failures before the status are all wrapped in an HttpError by `request`, so a bare network error comes from the body
+function isBodyFailure(error: unknown): boolean {
+  return (
+    error instanceof HttpBodyError ||
+    (!(error instanceof HttpError) && BODY_FAILURE_CODES.has((error as NodeJS.ErrnoException)?.code || ""))
+  );
+}
+
+/**
+ * Runs read, which requests url and reads the whole body (e.g. parsing or extracting it), again whenever the body
+ * fails to stream in, with the same retries and backoff as `request`. Any other failure is passed on as it is.
+ */
+export async function retryBodyErrors<T>(
+  url: string,
+  options: RequestOptions,
+  read: () => Promise<T>
+): Promise<T> {
+  const settings = { ...getRequestDefaults(), ...options };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await read();
+    } catch (error) {
+      if (!isBodyFailure(error)) {
+        throw error;
+      }
+      if (attempt >= settings.retries) {
+        throw error instanceof HttpBodyError
+          ? error
+          : new HttpBodyError(options.resource || url, url, "the connection failed while reading the response");
+      }
+    }
+    const delay = getRetryDelay(attempt, settings.minRetryDelay, settings.maxRetryDelay);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Like `request`, but reads the body and parses it as JSON (a 304 has no body, and resolves with an undefined one),
+ * retrying the request when the body fails to stream in
+ */
+export async function requestJson(url: string, options: RequestOptions = {}): Promise<JsonResponse> {
+  const { response, chunks } = await retryBodyErrors(url, options, async () => {
+    const response = await request(url, {
+      ...options,
+      headers: { Accept: "application/json", ...options.headers },
+    });
+    const chunks: Buffer[] = [];
+    for await (const chunk of response) {
+      chunks.push(chunk);
+    }
+    return { response, chunks };
+  });
+
+  const { statusCode = 200, headers } = response;
+  if (statusCode === 304) {
+    return { statusCode, headers, body: undefined };
+  }
+  try {
+    return { statusCode, headers, body: JSON.parse(Buffer.concat(chunks).toString("utf8")) };
+  } catch (e) {
+    throw new HttpError(options.resource || url, url, "the response is not valid JSON");
+  }
+}
@@ -0,0 +1,51 @@
+import crypto from "crypto";
+import {
+  createTarballHasher,
+  IntegrityError,
+  shasumToIntegrity,
+  verifyIntegrity,
+} from "./integrity";
+
+const content = Buffer.from("not really a tarball");
+const sha1 = crypto.createHash("sha1").update(content).digest("hex");
+const sha512 = `sha512-${crypto.createHash("sha512").update(content).digest("base64")}`;
+
+function digestsOf(...chunks: Buffer[]) {
+  const hasher = createTarballHasher();
+  chunks.forEach((chunk) => hasher.update(chunk));
+  return hasher.digest();
+}
+
+describe("verifyIntegrity", () => {
+  it("hashes streamed chunks", () => {
+    expect(digestsOf(content.subarray(0, 5), content.subarray(5))).toEqual({
+      sha1,
+      sha512,
+    });
+  });
+
+  it("accepts matching digests", () => {
+    const digests = digestsOf(content);
+
+    expect(() =>
+      verifyIntegrity("pkg@1.0.0", digests, { shasum: sha1, integrity: sha512 })
+    ).not.toThrow();
+    expect(() =>
+      verifyIntegrity("pkg@1.0.0", digests, { integrity: shasumToIntegrity(sha1) })
+    ).not.toThrow();
+  });
+
+  it("names the expected and actual digests on a mismatch", () => {
+    const digests = digestsOf(Buffer.from("truncated"));
+
+    expect(() =>
+      verifyIntegrity("pkg@1.0.0", digests, { integrity: sha512 })
+    ).toThrow(IntegrityError);
+    expect(() =>
+      verifyIntegrity("pkg@1.0.0", digests, { integrity: sha512 })
+    ).toThrow(`expected ${sha512} but downloaded ${digests.sha512}`);
+    expect(() =>
+      verifyIntegrity("pkg@1.0.0", digests, { shasum: sha1 })
+    ).toThrow(`expected ${sha1} but downloaded ${digests.sha1}`);
+  });
+});
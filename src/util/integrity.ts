@@ -0,0 +1,92 @@
+import crypto from "crypto";
+
+/**
+ * Thrown when a downloaded tarball doesn't match the digest published by the registry (or recorded in the lockfile)
+ */
+export class IntegrityError extends Error {
+  constructor(
+    readonly packageSpec: string,
+    readonly expected: string,
+    readonly actual: string
+  ) {
+    super(
+      `Integrity check failed for ${packageSpec}: expected ${expected} but downloaded ${actual}`
+    );
+    this.name = "IntegrityError";
+  }
+}
+
+/**
+ * sha1: the hex sha1 digest, comparable to the registry's `dist.shasum`
+ * sha512: the SRI sha512 string, comparable to the registry's `dist.integrity`
+ */
+export interface TarballDigests {
+  sha1: string;
+  sha512: string;
+}
+
+export interface ExpectedDigests {
+  shasum?: string;
+  integrity?: string;
+}
+
+/**
+ * Incrementally hashes a tarball as its chunks are streamed in
+ */
+export function createTarballHasher() {
+  const sha1 = crypto.createHash("sha1");
+  const sha512 = crypto.createHash("sha512");
+
+  return {
+    update(chunk: Buffer) {
+      sha1.update(chunk);
+      sha512.update(chunk);
+    },
+    digest(): TarballDigests {
+      return {
+        sha1: sha1.digest("hex"),
+        sha512: `sha512-${sha512.digest("base64")}`,
+      };
+    },
+  };
+}
+
+/**
+ * Converts a hex sha1 shasum into its SRI form
+ */
+export function shasumToIntegrity(shasum: string): string {
+  return `sha1-${Buffer.from(shasum, "hex").toString("base64")}`;
+}
+
+/**
+ * Throws an IntegrityError unless the digests match both the shasum and the strongest hash in the integrity string
+ */
+export function verifyIntegrity(
+  packageSpec: string,
+  actual: TarballDigests,
+  expected: ExpectedDigests
+) {
+  if (expected.shasum && expected.shasum !== actual.sha1) {
+    throw new IntegrityError(packageSpec, expected.shasum, actual.sha1);
+  }
+
+  if (expected.integrity) {
+    // An integrity string can hold several space-separated hashes; only sha512 and sha1 are computed here
+    const hashes = expected.integrity.trim().split(/\s+/);
+    const sha512 = hashes.filter((hash) => hash.startsWith("sha512-"));
+    const sha1 = hashes.filter((hash) => hash.startsWith("sha1-"));
+
+    if (sha512.length > 0) {
+      if (!sha512.includes(actual.sha512)) {
+        throw new IntegrityError(packageSpec, sha512.join(" "), actual.sha512);
+      }
+    } else if (sha1.length > 0) {
+      const actualSha1 = shasumToIntegrity(actual.sha1);
+      if (!sha1.includes(actualSha1)) {
+        throw new IntegrityError(packageSpec, sha1.join(" "), actualSha1);
+      }
+    } else {
+      throw new IntegrityError(packageSpec, expected.integrity, actual.sha512);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import fs from "fs";
+import path from "path";
+import { InstallationPlan } from "../types";
+import { installPackages } from "./download";
+import { planIsolatedLayout, syncIsolatedNodeModules } from "./isolated";
+import { readInstalledPackages } from "./nodeModules";
+import { nodeModulesPath } from "./paths";
+
+jest.mock("./download");
+
+const plan: InstallationPlan = [
+  { name: "a", version: "1.0.0" },
+  { name: "b", version: "2.0.0" },
+  { name: "b", version: "1.0.0", parentDirectory: "a/node_modules" },
+  { name: "my-c", version: "3.0.0", packageName: "c" },
+];
+
+const graph = new Map([
+  ["a@1.0.0", { dependencies: { b: "^1.0.0", "my-c": "npm:c@^3.0.0" } }],
+  ["b@1.0.0", { peerDependencies: { a: "1" } }],
+]);
+
+describe("planIsolatedLayout", () => {
+  it("stores each version once and links packages to only what they declare", () => {
+    const { store, links } = planIsolatedLayout(plan, graph, ["a", "b"]);
+
+    expect(store).toEqual([
+      { name: "a", version: "1.0.0", parentDirectory: ".store/a@1.0.0/node_modules" },
+      { name: "b", version: "2.0.0", parentDirectory: ".store/b@2.0.0/node_modules" },
+      { name: "b", version: "1.0.0", parentDirectory: ".store/b@1.0.0/node_modules" },
+      { name: "c", version: "3.0.0", parentDirectory: ".store/c@3.0.0/node_modules" },
+    ]);
+    expect(links).toEqual([
+      ["node_modules/.store/a@1.0.0/node_modules/b", "node_modules/.store/b@1.0.0/node_modules/b"],
+      ["node_modules/.store/a@1.0.0/node_modules/my-c", "node_modules/.store/c@3.0.0/node_modules/c"],
+      ["node_modules/.store/b@1.0.0/node_modules/a", "node_modules/.store/a@1.0.0/node_modules/a"],
+      ["node_modules/a", "node_modules/.store/a@1.0.0/node_modules/a"],
+      ["node_modules/b", "node_modules/.store/b@2.0.0/node_modules/b"],
+    ]);
+  });
+
+  it("links a dependency on another version of the package itself inside it", () => {
+    const { links } = planIsolatedLayout(
+      [
+        { name: "self", version: "2.0.0" },
+        { name: "self", version: "1.0.0", parentDirectory: "self/node_modules" },
+      ],
+      new Map([["self@2.0.0", { dependencies: { self: "^1.0.0" } }]]),
+      ["self"]
+    );
+
+    expect(links).toContainEqual([
+      "node_modules/.store/self@2.0.0/node_modules/self/node_modules/self",
+      "node_modules/.store/self@1.0.0/node_modules/self",
+    ]);
+  });
+});
+
+describe("syncIsolatedNodeModules", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+    (installPackages as jest.Mock).mockReset().mockImplementation(async (deps: InstallationPlan) => {
+      for (const dep of deps) {
+        const packagePath = path.join(nodeModulesPath, dep.parentDirectory!, dep.name);
+        fs.mkdirSync(packagePath, { recursive: true });
+        fs.writeFileSync(path.join(packagePath, "package.json"), JSON.stringify({ name: dep.name, version: dep.version }));
+      }
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+  });
+
+  it("replaces a hoisted install with links into the store, and keeps what is already stored", async () => {
+    fs.mkdirSync(path.join(nodeModulesPath, "a", "node_modules", "b"), { recursive: true });
+    fs.writeFileSync(path.join(nodeModulesPath, "a", "package.json"), JSON.stringify({ name: "a", version: "1.0.0" }));
+
+    const sync = await syncIsolatedNodeModules(plan, graph, ["a", "b"]);
+
+    expect(sync.added).toHaveLength(4);
+    expect(sync.removed.map((pkg) => pkg.location)).toEqual(["node_modules/a", "node_modules/a/node_modules/b"]);
+    expect(fs.readdirSync(nodeModulesPath).sort()).toEqual([".store", "a", "b"]);
+    expect(fs.realpathSync(path.join(nodeModulesPath, "a"))).toBe(
+      path.join(fs.realpathSync(nodeModulesPath), ".store", "a@1.0.0", "node_modules", "a")
+    );
+    expect(fs.realpathSync(path.join(nodeModulesPath, ".store", "a@1.0.0", "node_modules", "b"))).toBe(
+      path.join(fs.realpathSync(nodeModulesPath), ".store", "b@1.0.0", "node_modules", "b")
+    );
+    expect(readInstalledPackages().get("node_modules/a")).toEqual({
+      location: "node_modules/a",
+      name: "a",
+      realLocation: "node_modules/.store/a@1.0.0/node_modules/a",
+      packageName: "a",
+      version: "1.0.0",
+    });
+    expect([...readInstalledPackages().keys()]).toContain("node_modules/.store/b@1.0.0/node_modules/b");
+
+    // Only b@2.0.0 is still needed once a is gone
+    const again = await syncIsolatedNodeModules([{ name: "b", version: "2.0.0" }], new Map(), ["b"]);
+    expect(again.added).toEqual([]);
+    expect(again.removed.map((pkg) => pkg.location)).toEqual([
+      "node_modules/.store/a@1.0.0",
+      "node_modules/.store/b@1.0.0",
+      "node_modules/.store/c@3.0.0",
+    ]);
+    expect(fs.readdirSync(nodeModulesPath).sort()).toEqual([".store", "b"]);
+  });
+});
@@ -0,0 +1,189 @@
+import fs from "fs";
+import path from "path";
+import { DependencyGraph, DependencyInstallation, InstallationPlan } from "../types";
+import { syncBinLinks } from "./bin";
+import { DEFAULT_CONCURRENCY } from "./concurrency";
+import { installPackages } from "./download";
+import { getInstallLocation } from "./lockfile";
+import { InstalledPackage, isInstalledAs, NodeModulesSync, readInstalledPackages } from "./nodeModules";
+import { nodeModulesPath, storePath } from "./paths";
+import { createRegistryClient, RegistryClient } from "./registry";
+import { findVisibleInstallation, getDependencyEdges, indexByLocation } from "./tree";
+
+const STORE_DIRECTORY = path.basename(storePath);
+
+/**
+ * store: one plan entry per name@version, each installed at "node_modules/.store/<name>@<version>/node_modules/<name>"
+ * links: the symlinks that wire them together, as [location of the link, location it points to] pairs. Each stored
+ * package gets links to its own dependencies next to it, and the root of node_modules only gets links to the direct
+ * dependencies.
+ */
+export interface IsolatedLayout {
+  store: InstallationPlan;
+  links: [string, string][];
+}
+
+// "@scope/name@1.0.0" is stored as "@scope+name@1.0.0", so that every store entry is a single folder
+function getStoreKey(dep: DependencyInstallation): string {
+  return `${(dep.packageName || dep.name).replace("/", "+")}@${dep.version}`;
+}
+
+// The reverse of getStoreKey
+function parseStoreKey(key: string): { name: string; version: string } {
+  const at = key.lastIndexOf("@");
+  return { name: key.slice(0, at).replace("+", "/"), version: key.slice(at + 1) };
+}
+
+function toPath(location: string): string {
+  return path.join(path.dirname(nodeModulesPath), location);
+}
+
+/**
+ * Lays out a resolved plan without hoisting: each dependency resolves to the same copy it would in the plan, but a
+ * package can only see the dependencies it declares (and the project only its direct dependencies)
+ */
+export function planIsolatedLayout(
+  plan: InstallationPlan,
+  graph: DependencyGraph,
+  topLevelNames: string[]
+): IsolatedLayout {
+  const installed = indexByLocation(plan);
+  const store = new Map<string, DependencyInstallation>();
+  const links = new Map<string, string>();
+
+  const getStoreLocation = (dep: DependencyInstallation) =>
+    `node_modules/${STORE_DIRECTORY}/${getStoreKey(dep)}/node_modules/${dep.packageName || dep.name}`;
+
+  for (const dep of plan) {
+    // Copies of the same version nested in several places are stored once, wired up like the first of them
+    const key = getStoreKey(dep);
+    if (store.has(key)) {
+      continue;
+    }
+    const entry: DependencyInstallation = {
+      ...dep,
+      name: dep.packageName || dep.name,
+      parentDirectory: `${STORE_DIRECTORY}/${key}/node_modules`,
+    };
+    delete entry.packageName;
+    store.set(key, entry);
+
+    const location = getStoreLocation(dep);
+    for (const edge of getDependencyEdges(graph.get(`${dep.name}@${dep.version}`))) {
+      const target = findVisibleInstallation(installed, edge.name, dep);
+      if (!target || getStoreLocation(target) === location) {
+        continue;
+      }
+      // A dependency on another version of the package itself can't sit next to it, so it goes inside it instead
+      const link = edge.name === entry.name
+        ? `${location}/node_modules/${edge.name}`
+        : `node_modules/${STORE_DIRECTORY}/${key}/node_modules/${edge.name}`;
+      links.set(link, getStoreLocation(target));
+    }
+  }
+
+  for (const name of topLevelNames) {
+    const target = findVisibleInstallation(installed, name);
+    if (target) {
+      links.set(`node_modules/${name}`, getStoreLocation(target));
+    }
+  }
+
+  return { store: [...store.values()], links: [...links] };
+}
+
+function isStored(dep: DependencyInstallation): boolean {
+  const location = getInstallLocation(dep);
+  let manifest: { name?: string; version?: string } = {};
+  try {
+    manifest = JSON.parse(fs.readFileSync(path.join(toPath(location), "package.json"), "utf8"));
+  } catch (e) {
+    // A store entry without a readable package.json never matches, so it gets reinstalled
+  }
+  return isInstalledAs({ location, name: dep.name, packageName: manifest.name, version: manifest.version }, dep);
+}
+
+// Points the link at the target, leaving it alone if it already does
+function linkTo(link: string, target: string) {
+  const linkPath = toPath(link);
+  const relativeTarget = path.relative(path.dirname(linkPath), toPath(target));
+  try {
+    if (fs.readlinkSync(linkPath) === relativeTarget) {
+      return;
+    }
+  } catch (e) {
+    // Not a symlink, or not there at all
+  }
+  fs.rmSync(linkPath, { recursive: true, force: true });
+  fs.mkdirSync(path.dirname(linkPath), { recursive: true });
+  fs.symlinkSync(relativeTarget, linkPath, "junction");
+}
+
+// Lists what is at the root of node_modules, descending into scope folders, except hidden folders such as the store
+function listRootEntries(): string[] {
+  if (!fs.existsSync(nodeModulesPath)) {
+    return [];
+  }
+  return fs.readdirSync(nodeModulesPath).flatMap((name) => {
+    if (name.startsWith(".")) {
+      return [];
+    }
+    if (name.startsWith("@") && fs.lstatSync(path.join(nodeModulesPath, name)).isDirectory()) {
+      return fs.readdirSync(path.join(nodeModulesPath, name)).map((scoped) => `node_modules/${name}/${scoped}`);
+    }
+    return [`node_modules/${name}`];
+  });
+}
+
+/**
+ * Brings node_modules in line with the isolated layout of the plan. Store entries that are already in place are kept,
+ * and whatever a hoisted install left at the root is replaced by links.
+ */
+export async function syncIsolatedNodeModules(
+  plan: InstallationPlan,
+  graph: DependencyGraph,
+  topLevelNames: string[],
+  concurrency: number = DEFAULT_CONCURRENCY,
+  registry: RegistryClient = createRegistryClient()
+): Promise<NodeModulesSync> {
+  const { store, links } = planIsolatedLayout(plan, graph, topLevelNames);
+  fs.mkdirSync(storePath, { recursive: true });
+
+  // Real folders at the root come from a hoisted install
+  const removed: InstalledPackage[] = [...readInstalledPackages().values()].filter(
+    (pkg) => !pkg.realLocation && !pkg.location.startsWith(`node_modules/${STORE_DIRECTORY}/`)
+  );
+  const rootLinks = new Set(links.map(([link]) => link));
+  for (const location of listRootEntries()) {
+    if (!rootLinks.has(location) || fs.lstatSync(toPath(location)).isDirectory()) {
+      fs.rmSync(toPath(location), { recursive: true, force: true });
+    }
+  }
+
+  const keys = new Set(store.map(getStoreKey));
+  for (const key of fs.readdirSync(storePath).sort()) {
+    if (!keys.has(key)) {
+      const { name, version } = parseStoreKey(key);
+      removed.push({ location: `node_modules/${STORE_DIRECTORY}/${key}`, name, packageName: name, version });
+      fs.rmSync(path.join(storePath, key), { recursive: true, force: true });
+    }
+  }
+
+  const add = store.filter((dep) => !isStored(dep));
+  for (const dep of add) {
+    fs.rmSync(path.join(storePath, getStoreKey(dep)), { recursive: true, force: true });
+  }
+  await installPackages(add, concurrency, registry);
+
+  // Optional packages that failed to install have nothing to link to
+  const linked = links.filter(([, target]) => fs.existsSync(toPath(target)));
+  for (const [link, target] of linked) {
+    linkTo(link, target);
+  }
+  syncBinLinks(linked.map(([link]) => link));
+
+  console.log(
+    `Added ${add.length} and removed ${removed.length} packages (${store.length - add.length} already up to date)`
+  );
+  return { added: add, removed, moved: 0 };
+}
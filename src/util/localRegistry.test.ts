@@ -0,0 +1,88 @@
+import fs from "fs";
+import path from "path";
+import { constructInstallationPlan } from "../commands/install/TODO";
+import { createLocalRegistryClient, publishToLocalRegistry } from "./localRegistry";
+import { outputDir } from "./paths";
+const tar = require("tar");
+
+const registryPath = path.join(outputDir, "local-registry");
+const packagesPath = path.join(outputDir, "local-registry-packages");
+
+async function publish(manifest: Record<string, unknown>) {
+  const packagePath = path.join(packagesPath, `${manifest.name}@${manifest.version}`);
+  fs.mkdirSync(packagePath, { recursive: true });
+  fs.writeFileSync(path.join(packagePath, "package.json"), JSON.stringify(manifest));
+  return publishToLocalRegistry(registryPath, packagePath);
+}
+
+describe("local registry", () => {
+  beforeAll(async () => {
+    await publish({ name: "local-a", version: "1.0.0", dependencies: { "@local/b": "^2.0.0" } });
+    await publish({ name: "local-a", version: "1.1.0", dependencies: { "@local/b": "^2.0.0" } });
+    await publish({ name: "@local/b", version: "2.0.0" });
+  });
+
+  afterAll(() => {
+    fs.rmSync(registryPath, { recursive: true, force: true });
+    fs.rmSync(packagesPath, { recursive: true, force: true });
+  });
+
+  it("publishes packages with their dist information and tags the highest version latest", async () => {
+    const packument = await createLocalRegistryClient(registryPath).getPackument("local-a");
+
+    expect(packument["dist-tags"]).toEqual({ latest: "1.1.0" });
+    expect(Object.keys(packument.versions)).toEqual(["1.0.0", "1.1.0"]);
+    expect(packument.versions["1.0.0"].dist).toEqual({
+      tarball: `file:${path.join(registryPath, "local-a", "-", "local-a-1.0.0.tgz")}`,
+      shasum: expect.stringMatching(/^[0-9a-f]{40}$/),
+      integrity: expect.stringMatching(/^sha512-/),
+    });
+  });
+
+  it("publishes the same files to the same tarball", async () => {
+    const first = await publish({ name: "local-c", version: "1.0.0" });
+    const second = await publish({ name: "local-c", version: "1.0.0" });
+
+    expect(second.dist.integrity).toBe(first.dist.integrity);
+  });
+
+  it("resolves versions, ranges, tags and aliases", async () => {
+    const registry = createLocalRegistryClient(registryPath);
+
+    expect((await registry.getVersion({ name: "local-a", version: "1.0.0" })).version).toBe("1.0.0");
+    expect((await registry.getVersion({ name: "local-a", version: "^1.0.0" })).version).toBe("1.1.0");
+    expect((await registry.getVersion({ name: "local-a", version: "latest" })).version).toBe("1.1.0");
+    expect((await registry.getVersion({ name: "my-b", version: "npm:@local/b@2" })).name).toBe("@local/b");
+    await expect(registry.getVersion({ name: "local-a", version: "^3.0.0" })).rejects.toThrow(
+      "No version of local-a satisfies ^3.0.0"
+    );
+    await expect(registry.getPackument("missing")).rejects.toThrow("missing is not in the local registry");
+  });
+
+  it("streams tarballs with the package in a top-level folder", async () => {
+    const registry = createLocalRegistryClient(registryPath);
+    const { dist } = await registry.getVersion({ name: "@local/b", version: "2.0.0" });
+
+    const entries: string[] = [];
+    const tarball = await registry.fetchTarball(dist.tarball);
+    await new Promise((resolve, reject) => {
+      tarball
+        .pipe(tar.list({ onentry: (entry: { path: string }) => entries.push(entry.path) }))
+        .on("end", resolve)
+        .on("error", reject);
+    });
+    expect(entries).toEqual(["package/package.json"]);
+  });
+
+  it("resolves an installation plan without the network", async () => {
+    const plan = await constructInstallationPlan(
+      { "local-a": "^1.0.0" },
+      { registry: createLocalRegistryClient(registryPath) }
+    );
+
+    expect(plan).toEqual([
+      expect.objectContaining({ name: "local-a", version: "1.1.0" }),
+      expect.objectContaining({ name: "@local/b", version: "2.0.0" }),
+    ]);
+  });
+});
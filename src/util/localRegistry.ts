@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import semver from "semver";
+import { Readable } from "stream";
+import { Packument, VersionManifest } from "../types";
+import { createTarballHasher } from "./integrity";
+import { validatePackument } from "./packument";
+import { findVersion, parseRegistryDependency, RegistryClient } from "./registry";
+const tar = require("tar");
+
+// A local registry is a directory laid out like the paths of a registry: the packument of each package is at
+// "<name>/index.json", and its tarballs at "<name>/-/<name>-<version>.tgz". The dist.tarball of each version is stored
+// relative to the directory, and turned into a URL by whatever serves it.
+
+const PACKED_MTIME = new Date("1985-10-26T08:15:00.000Z");
+
+function getPackumentPath(directory: string, name: string): string {
+  return path.join(directory, name, "index.json");
+}
+
+/**
+ * Reads and validates the packument of a package in a local registry, or returns undefined if it isn't there.
+ * `getTarballUrl` turns each stored dist.tarball path into the URL to hand out.
+ */
+export function readLocalPackument(
+  directory: string,
+  name: string,
+  getTarballUrl: (tarballPath: string) => string
+): Packument | undefined {
+  const packumentPath = getPackumentPath(directory, name);
+  if (!fs.existsSync(packumentPath)) {
+    return undefined;
+  }
+
+  const packument = validatePackument(name, JSON.parse(fs.readFileSync(packumentPath, "utf8")));
+  for (const manifest of Object.values(packument.versions)) {
+    manifest.dist.tarball = getTarballUrl(manifest.dist.tarball);
+  }
+  return packument;
+}
+
+/**
+ * Packs the package at `packagePath` (a folder with a package.json) into a local registry, adding its version to the
+ * package's packument. The highest version is tagged latest.
+ *
+ * @returns The manifest of the published version, with its dist information
+ */
+export async function publishToLocalRegistry(directory: string, packagePath: string): Promise<VersionManifest> {
+  const manifest = JSON.parse(fs.readFileSync(path.join(packagePath, "package.json"), "utf8"));
+  if (!manifest.name || !manifest.version) {
+    throw new Error(`The package.json of ${packagePath} must have a name and a version`);
+  }
+
+  const tarballPath = `${manifest.name}/-/${manifest.name.replace(/^@[^/]+\//, "")}-${manifest.version}.tgz`;
+  const tarballFile = path.join(directory, tarballPath);
+  fs.mkdirSync(path.dirname(tarballFile), { recursive: true });
+  await tar.create(
+    // A fixed mtime (the one npm uses) makes publishing the same files twice produce the same tarball
+    { gzip: true, file: tarballFile, cwd: packagePath, prefix: "package", portable: true, mtime: PACKED_MTIME },
+    fs.readdirSync(packagePath).filter((entry) => entry !== "node_modules")
+  );
+
+  const hasher = createTarballHasher();
+  hasher.update(fs.readFileSync(tarballFile));
+  const digests = hasher.digest();
+  const published: VersionManifest = {
+    ...manifest,
+    dist: { tarball: tarballPath, shasum: digests.sha1, integrity: digests.sha512 },
+  };
+
+  const packumentPath = getPackumentPath(directory, manifest.name);
+  const packument: Packument = fs.existsSync(packumentPath)
+    ? JSON.parse(fs.readFileSync(packumentPath, "utf8"))
+    : { name: manifest.name, "dist-tags": {}, versions: {} };
+  packument.versions[manifest.version] = published;
+  packument["dist-tags"].latest = semver.rsort(Object.keys(packument.versions))[0];
+  fs.writeFileSync(packumentPath, JSON.stringify(packument, null, 2));
+
+  return published;
+}
+
+/**
+ * Serves packuments and tarballs straight from a local registry directory, without any network access
+ */
+export function createLocalRegistryClient(directory: string): RegistryClient {
+  const client: RegistryClient = {
+    async getPackument(name) {
+      const packument = readLocalPackument(directory, name, (tarballPath) =>
+        `file:${path.join(directory, tarballPath)}`
+      );
+      if (!packument) {
+        throw new Error(`${name} is not in the local registry at ${directory}`);
+      }
+      return packument;
+    },
+
+    async getVersion(dep) {
+      const { name, spec } = parseRegistryDependency(dep);
+      const manifest = findVersion(await client.getPackument(name), spec.type, spec.fetchSpec);
+      if (!manifest) {
+        throw new Error(`No version of ${name} satisfies ${spec.fetchSpec}`);
+      }
+      return manifest;
+    },
+
+    async fetchTarball(url): Promise<Readable> {
+      const tarballFile = url.startsWith("file:") ? url.slice("file:".length) : path.join(directory, url);
+      if (!fs.existsSync(tarballFile)) {
+        throw new Error(`${url} is not in the local registry at ${directory}`);
+      }
+      return fs.createReadStream(tarballFile);
+    },
+  };
+  return client;
+}
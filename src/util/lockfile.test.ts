@@ -0,0 +1,114 @@
+import { DependencyGraph, InstallationPlan } from "../types";
+import {
+  createLockfile,
+  getDependencyGraph,
+  getLockedVersions,
+  isLockfileInSync,
+  lockfileToPlan,
+} from "./lockfile";
+
+const plan: InstallationPlan = [
+  {
+    name: "shared-dep",
+    version: "1.5.0",
+    parentDirectory: "package-c/node_modules",
+    resolved: "https://registry.npmjs.org/shared-dep/-/shared-dep-1.5.0.tgz",
+    integrity: "sha512-abc",
+  },
+  { name: "package-c", version: "1.0.0" },
+  { name: "shared-dep", version: "2.0.0" },
+];
+
+describe("lockfile", () => {
+  it("records every installation by location", () => {
+    const lockfile = createLockfile(plan, { "package-c": "^1.0.0" });
+
+    expect(lockfile.requires).toEqual({ "package-c": "^1.0.0" });
+    expect(Object.keys(lockfile.packages)).toEqual([
+      "node_modules/package-c",
+      "node_modules/package-c/node_modules/shared-dep",
+      "node_modules/shared-dep",
+    ]);
+    expect(
+      lockfile.packages["node_modules/package-c/node_modules/shared-dep"]
+    ).toEqual({
+      name: "shared-dep",
+      version: "1.5.0",
+      resolved: "https://registry.npmjs.org/shared-dep/-/shared-dep-1.5.0.tgz",
+      integrity: "sha512-abc",
+    });
+  });
+
+  it("records the ranges each version asks for and reads them back as a graph", () => {
+    const graph: DependencyGraph = new Map([
+      ["package-c@1.0.0", { dependencies: { "shared-dep": "^1.0.0" } }],
+      ["shared-dep@2.0.0", { peerDependencies: { "package-c": "1" } }],
+    ]);
+    const lockfile = createLockfile(plan, { "package-c": "^1.0.0" }, new Set(), new Set(), graph);
+
+    expect(lockfile.packages["node_modules/package-c"].dependencies).toEqual({ "shared-dep": "^1.0.0" });
+    expect(lockfile.packages["node_modules/package-c/node_modules/shared-dep"].dependencies).toBeUndefined();
+    expect(getDependencyGraph(lockfile)).toEqual(new Map([...graph, ["shared-dep@1.5.0", {}]]));
+  });
+
+  it("round trips into an installation plan with parents first", () => {
+    const lockfile = createLockfile(plan, { "package-c": "^1.0.0" });
+    const restored = lockfileToPlan(lockfile);
+
+    expect(restored).toHaveLength(3);
+    expect(restored[0]).toEqual({ name: "package-c", version: "1.0.0" });
+    expect(restored[1]).toEqual(plan[0]);
+    expect(restored[2]).toEqual({ name: "shared-dep", version: "2.0.0" });
+  });
+
+  it("is in sync only while package.json is satisfied", () => {
+    const lockfile = createLockfile(plan, { "package-c": "^1.0.0" });
+
+    expect(isLockfileInSync(lockfile, { "package-c": "^1.0.0" })).toBe(true);
+    expect(isLockfileInSync(lockfile, { "package-c": "1.0.0" })).toBe(true);
+    expect(isLockfileInSync(lockfile, { "package-c": "^2.0.0" })).toBe(false);
+    expect(
+      isLockfileInSync(lockfile, { "package-c": "^1.0.0", "new-dep": "1.0.0" })
+    ).toBe(false);
+  });
+
+  it("records dev and optional flags and is out of sync when types change", () => {
+    const lockfile = createLockfile(
+      [{ name: "package-c", version: "1.0.0", dev: true }],
+      { "package-c": "^1.0.0" },
+      new Set(["package-c"])
+    );
+
+    expect(lockfile.devDependencies).toEqual(["package-c"]);
+    expect(lockfile.packages["node_modules/package-c"].dev).toBe(true);
+    expect(lockfileToPlan(lockfile)).toEqual([
+      { name: "package-c", version: "1.0.0", dev: true },
+    ]);
+    expect(
+      isLockfileInSync(lockfile, { "package-c": "^1.0.0" }, new Set(["package-c"]))
+    ).toBe(true);
+    expect(isLockfileInSync(lockfile, { "package-c": "^1.0.0" })).toBe(false);
+    expect(
+      isLockfileInSync(
+        lockfile,
+        { "package-c": "^1.0.0" },
+        new Set(["package-c"]),
+        new Set(["package-c"])
+      )
+    ).toBe(false);
+  });
+
+  it("does not pin versions of changed dependencies", () => {
+    const lockfile = createLockfile(plan, {
+      "package-c": "^1.0.0",
+      "shared-dep": "^2.0.0",
+    });
+    const locked = getLockedVersions(lockfile, {
+      "package-c": "^1.0.0",
+      "shared-dep": "^3.0.0",
+    });
+
+    expect(locked.get("package-c")).toEqual(new Set(["1.0.0"]));
+    expect(locked.has("shared-dep")).toBe(false);
+  });
+});
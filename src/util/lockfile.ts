@@ -0,0 +1,273 @@
+import fs from "fs";
+import semver from "semver";
+import {
+  DependencyGraph,
+  DependencyInstallation,
+  DependencyRanges,
+  InstallationPlan,
+} from "../types";
+import { packageLockJsonPath } from "./paths";
+import { parseDependencySpec } from "./packageSpec";
+
+export const LOCKFILE_VERSION = 1;
+
+const DEPENDENCY_RANGE_KINDS = [
+  "dependencies",
+  "optionalDependencies",
+  "peerDependencies",
+  "peerDependenciesMeta",
+] as const;
+
+export interface LockfileEntry extends DependencyRanges {
+  name: string;
+  version: string;
+  resolved?: string;
+  integrity?: string;
+  packageName?: string;
+  external?: boolean;
+  dev?: boolean;
+  optional?: boolean;
+}
+
+/**
+ * requires: the top-level ranges from package.json that the lockfile was resolved against
+ * devDependencies, optionalDependencies: which of those names are dev-only or optional
+ * packages: every installed package, keyed by its location relative to the project (e.g. "node_modules/a/node_modules/b")
+ */
+export interface Lockfile {
+  lockfileVersion: number;
+  requires: Record<string, string>;
+  devDependencies?: string[];
+  optionalDependencies?: string[];
+  packages: Record<string, LockfileEntry>;
+}
+
+// Copies the non-empty kinds of ranges from one object to another
+function copyRanges(from: DependencyRanges, to: DependencyRanges) {
+  for (const kind of DEPENDENCY_RANGE_KINDS) {
+    const ranges = from[kind];
+    if (ranges && Object.keys(ranges).length > 0) {
+      Object.assign(to, { [kind]: { ...ranges } });
+    }
+  }
+}
+
+/**
+ * Returns the location of an installation relative to the project, e.g. "node_modules/a/node_modules/b"
+ */
+export function getInstallLocation(dep: DependencyInstallation): string {
+  return dep.parentDirectory
+    ? `node_modules/${dep.parentDirectory}/${dep.name}`
+    : `node_modules/${dep.name}`;
+}
+
+export function createLockfile(
+  plan: InstallationPlan,
+  topLevelDependencies: Record<string, string>,
+  devDependencies: Set<string> = new Set(),
+  optionalDependencies: Set<string> = new Set(),
+  graph: DependencyGraph = new Map()
+): Lockfile {
+  const packages: Record<string, LockfileEntry> = {};
+
+  // Sorting the locations keeps the file stable and puts every parent before its nested dependencies
+  const sortedPlan = [...plan].sort((a, b) =>
+    getInstallLocation(a).localeCompare(getInstallLocation(b))
+  );
+  for (const dep of sortedPlan) {
+    const entry: LockfileEntry = { name: dep.name, version: dep.version };
+    if (dep.resolved) {
+      entry.resolved = dep.resolved;
+    }
+    if (dep.integrity) {
+      entry.integrity = dep.integrity;
+    }
+    if (dep.packageName) {
+      entry.packageName = dep.packageName;
+    }
+    if (dep.external) {
+      entry.external = true;
+    }
+    if (dep.dev) {
+      entry.dev = true;
+    }
+    if (dep.optional) {
+      entry.optional = true;
+    }
+    // Record what the version asks for, so that the tree can be explained without the registry
+    copyRanges(graph.get(`${dep.name}@${dep.version}`) || {}, entry);
+    packages[getInstallLocation(dep)] = entry;
+  }
+
+  const lockfile: Lockfile = {
+    lockfileVersion: LOCKFILE_VERSION,
+    requires: { ...topLevelDependencies },
+    packages,
+  };
+  if (devDependencies.size > 0) {
+    lockfile.devDependencies = [...devDependencies].sort();
+  }
+  if (optionalDependencies.size > 0) {
+    lockfile.optionalDependencies = [...optionalDependencies].sort();
+  }
+  return lockfile;
+}
+
+/**
+ * Reads package-lock.json, returning undefined if there is no usable lockfile
+ */
+export function readLockfile(): Lockfile | undefined {
+  if (!fs.existsSync(packageLockJsonPath)) {
+    return undefined;
+  }
+
+  try {
+    const lockfile: Lockfile = JSON.parse(
+      fs.readFileSync(packageLockJsonPath, "utf8")
+    );
+    if (lockfile.lockfileVersion !== LOCKFILE_VERSION || !lockfile.packages) {
+      console.warn("Ignoring package-lock.json with an unsupported format");
+      return undefined;
+    }
+    return lockfile;
+  } catch (e) {
+    console.warn("Ignoring unreadable package-lock.json:", e);
+    return undefined;
+  }
+}
+
+export function writeLockfile(lockfile: Lockfile) {
+  fs.writeFileSync(packageLockJsonPath, JSON.stringify(lockfile, null, 2));
+}
+
+/**
+ * Collects the ranges recorded for each version in the lockfile, keyed by "name@version"
+ */
+export function getDependencyGraph(lockfile: Lockfile): DependencyGraph {
+  const graph: DependencyGraph = new Map();
+  for (const entry of Object.values(lockfile.packages)) {
+    const ranges: DependencyRanges = {};
+    copyRanges(entry, ranges);
+    graph.set(`${entry.name}@${entry.version}`, ranges);
+  }
+  return graph;
+}
+
+/**
+ * Converts the lockfile back into an installation plan, parents first
+ */
+export function lockfileToPlan(lockfile: Lockfile): InstallationPlan {
+  const plan: InstallationPlan = [];
+
+  for (const location of Object.keys(lockfile.packages).sort()) {
+    const entry = lockfile.packages[location];
+    const relativePath = location.slice("node_modules/".length);
+    const parentDirectory =
+      relativePath === entry.name
+        ? undefined
+        : relativePath.slice(0, relativePath.length - entry.name.length - 1);
+
+    const dep: DependencyInstallation = {
+      name: entry.name,
+      version: entry.version,
+    };
+    if (parentDirectory) {
+      dep.parentDirectory = parentDirectory;
+    }
+    if (entry.resolved) {
+      dep.resolved = entry.resolved;
+    }
+    if (entry.integrity) {
+      dep.integrity = entry.integrity;
+    }
+    if (entry.packageName) {
+      dep.packageName = entry.packageName;
+    }
+    if (entry.external) {
+      dep.external = true;
+    }
+    if (entry.dev) {
+      dep.dev = true;
+    }
+    if (entry.optional) {
+      dep.optional = true;
+    }
+    plan.push(dep);
+  }
+
+  return plan;
+}
+
+/**
+ * Returns the names of top-level dependencies whose spec changed in a way that the locked version no longer satisfies.
+ * Specs other than versions and ranges (dist-tags, paths, URLs) only stay locked while they are unchanged.
+ */
+export function getChangedDependencies(
+  lockfile: Lockfile,
+  topLevelDependencies: Record<string, string>
+): string[] {
+  return Object.entries(topLevelDependencies)
+    .filter(([name, range]) => {
+      const entry = lockfile.packages[`node_modules/${name}`];
+      if (!entry) {
+        return true;
+      }
+      if (lockfile.requires?.[name] === range) {
+        return false;
+      }
+      const spec = parseDependencySpec(name, range);
+      const target = spec.subSpec || spec;
+      return (
+        !["version", "range"].includes(target.type) ||
+        (entry.packageName || entry.name) !== (target.name || name) ||
+        !semver.satisfies(entry.version, target.fetchSpec)
+      );
+    })
+    .map(([name]) => name);
+}
+
+function sameNames(a: Iterable<string>, b: Iterable<string>): boolean {
+  return [...a].sort().join("\n") === [...b].sort().join("\n");
+}
+
+/**
+ * A lockfile can be installed as-is when it covers exactly the top-level dependencies, of the same types, and each
+ * locked version still satisfies the range in package.json
+ */
+export function isLockfileInSync(
+  lockfile: Lockfile,
+  topLevelDependencies: Record<string, string>,
+  devDependencies: Set<string> = new Set(),
+  optionalDependencies: Set<string> = new Set()
+): boolean {
+  return (
+    sameNames(Object.keys(lockfile.requires || {}), Object.keys(topLevelDependencies)) &&
+    sameNames(lockfile.devDependencies || [], devDependencies) &&
+    sameNames(lockfile.optionalDependencies || [], optionalDependencies) &&
+    getChangedDependencies(lockfile, topLevelDependencies).length === 0
+  );
+}
+
+/**
+ * Collects the locked versions of every package, leaving out the top-level dependencies that changed so that only
+ * those are re-resolved
+ */
+export function getLockedVersions(
+  lockfile: Lockfile,
+  topLevelDependencies: Record<string, string>
+): Map<string, Set<string>> {
+  const changed = new Set(getChangedDependencies(lockfile, topLevelDependencies));
+  const lockedVersions = new Map<string, Set<string>>();
+
+  for (const entry of Object.values(lockfile.packages)) {
+    if (changed.has(entry.name)) {
+      continue;
+    }
+    if (!lockedVersions.has(entry.name)) {
+      lockedVersions.set(entry.name, new Set());
+    }
+    lockedVersions.get(entry.name)!.add(entry.version);
+  }
+
+  return lockedVersions;
+}
@@ -0,0 +1,92 @@
+import fs from "fs";
+import path from "path";
+import { diffNodeModules, InstalledPackage, readInstalledPackages } from "./nodeModules";
+import { outputDir } from "./paths";
+
+function writePackage(packagePath: string, name: string, version: string) {
+  fs.mkdirSync(packagePath, { recursive: true });
+  fs.writeFileSync(path.join(packagePath, "package.json"), JSON.stringify({ name, version }));
+}
+
+function installedMap(packages: InstalledPackage[]): Map<string, InstalledPackage> {
+  return new Map(packages.map((pkg) => [pkg.location, pkg]));
+}
+
+describe("readInstalledPackages", () => {
+  it("reads nested, scoped and aliased packages", () => {
+    const root = path.join(outputDir, "read-installed", "node_modules");
+    fs.rmSync(root, { recursive: true, force: true });
+    writePackage(path.join(root, "a"), "a", "1.0.0");
+    writePackage(path.join(root, "a", "node_modules", "@scope", "b"), "@scope/b", "2.0.0");
+    writePackage(path.join(root, "my-c"), "c", "3.0.0");
+    fs.mkdirSync(path.join(root, ".bin"));
+    fs.writeFileSync(path.join(root, "leftover-1.0.0.tgz"), "");
+
+    expect(readInstalledPackages(root)).toEqual(
+      installedMap([
+        { location: "node_modules/a", name: "a", packageName: "a", version: "1.0.0" },
+        {
+          location: "node_modules/a/node_modules/@scope/b",
+          name: "@scope/b",
+          packageName: "@scope/b",
+          version: "2.0.0",
+        },
+        { location: "node_modules/my-c", name: "my-c", packageName: "c", version: "3.0.0" },
+      ])
+    );
+  });
+});
+
+describe("diffNodeModules", () => {
+  it("keeps matching packages and replaces everything nested in a changed one", () => {
+    const changes = diffNodeModules(
+      installedMap([
+        { location: "node_modules/a", name: "a", packageName: "a", version: "1.0.0" },
+        { location: "node_modules/b", name: "b", packageName: "b", version: "1.0.0" },
+        { location: "node_modules/b/node_modules/c", name: "c", packageName: "c", version: "1.0.0" },
+        { location: "node_modules/extra", name: "extra", packageName: "extra", version: "1.0.0" },
+      ]),
+      [
+        { name: "a", version: "1.0.0" },
+        { name: "b", version: "2.0.0" },
+        { name: "c", version: "1.0.0", parentDirectory: "b/node_modules" },
+      ]
+    );
+
+    expect(changes.remove).toEqual(["node_modules/b", "node_modules/extra"]);
+    expect(changes.add).toEqual([
+      { name: "b", version: "2.0.0" },
+      { name: "c", version: "1.0.0", parentDirectory: "b/node_modules" },
+    ]);
+    expect(changes.move).toEqual([]);
+  });
+
+  it("moves packages that only changed location", () => {
+    const changes = diffNodeModules(
+      installedMap([
+        { location: "node_modules/a", name: "a", packageName: "a", version: "1.0.0" },
+        { location: "node_modules/a/node_modules/b", name: "b", packageName: "b", version: "1.0.0" },
+      ]),
+      [
+        { name: "a", version: "1.0.0" },
+        { name: "b", version: "1.0.0" },
+      ]
+    );
+
+    expect(changes.remove).toEqual(["node_modules/a/node_modules/b"]);
+    expect(changes.add).toEqual([{ name: "b", version: "1.0.0" }]);
+    expect(changes.move).toEqual([["node_modules/a/node_modules/b", "node_modules/b"]]);
+  });
+
+  it("always reinstalls packages from paths and URLs", () => {
+    const local = { name: "local", version: "1.0.0", resolved: "file:/tmp/local", external: true };
+    const changes = diffNodeModules(
+      installedMap([{ location: "node_modules/local", name: "local", packageName: "local", version: "1.0.0" }]),
+      [local]
+    );
+
+    expect(changes.remove).toEqual(["node_modules/local"]);
+    expect(changes.add).toEqual([local]);
+    expect(changes.move).toEqual([]);
+  });
+});
@@ -0,0 +1,270 @@
+import fs from "fs";
+import path from "path";
+import { DependencyInstallation, InstallationPlan } from "../types";
+import { syncBinLinks } from "./bin";
+import { DEFAULT_CONCURRENCY } from "./concurrency";
+import { installPackages } from "./download";
+import { getInstallLocation } from "./lockfile";
+import { nodeModulesPath, storePath } from "./paths";
+import { createRegistryClient, RegistryClient } from "./registry";
+
+/**
+ * location: where the package is installed, relative to the project (e.g. "node_modules/a/node_modules/b")
+ * name: the name it is installed under, i.e. its folder name
+ * packageName, version: the name and version from its own package.json, undefined if it can't be read
+ * realLocation: for a symlink into the project (as in the isolated layout), the location of the folder it points to
+ */
+export interface InstalledPackage {
+  location: string;
+  name: string;
+  realLocation?: string;
+  packageName?: string;
+  version?: string;
+}
+
+/**
+ * remove: locations to delete, outermost first (deleting a package deletes everything nested in it)
+ * add: plan entries that aren't installed yet, in plan order
+ * move: installed packages that are only in the wrong place, as [from, to] pairs of locations
+ */
+export interface NodeModulesChanges {
+  remove: string[];
+  add: InstallationPlan;
+  move: [string, string][];
+}
+
+/**
+ * added: plan entries that were installed
+ * removed: installed packages that were deleted, including the ones nested in them
+ * moved: how many packages were moved rather than reinstalled
+ */
+export interface NodeModulesSync {
+  added: InstallationPlan;
+  removed: InstalledPackage[];
+  moved: number;
+}
+
+/**
+ * Returns the location of the package that `location` is nested in, e.g. "node_modules/a" for
+ * "node_modules/a/node_modules/@scope/b", or undefined at the root
+ */
+function getParentLocation(location: string): string | undefined {
+  const index = location.lastIndexOf("/node_modules/");
+  return index === -1 ? undefined : location.slice(0, index);
+}
+
+/**
+ * Walks a node_modules folder and the node_modules folders nested in its packages, reading each package's package.json.
+ * Symlinked packages are read through the link, and the node_modules folder they really live in (such as one in
+ * node_modules/.store) is walked as well.
+ */
+export function readInstalledPackages(
+  root: string = nodeModulesPath
+): Map<string, InstalledPackage> {
+  const installed = new Map<string, InstalledPackage>();
+  const projectPath = fs.realpathSync(path.dirname(root));
+  const visited = new Set<string>();
+
+  function getRealLocation(packagePath: string): string | undefined {
+    const realLocation = path.relative(projectPath, fs.realpathSync(packagePath)).split(path.sep).join("/");
+    // Links out of the project (e.g. to a local folder) are read as if they were the package itself
+    return realLocation.startsWith("node_modules/") ? realLocation : undefined;
+  }
+
+  function readPackage(packagePath: string, location: string, name: string) {
+    let manifest: { name?: string; version?: string } = {};
+    try {
+      manifest = JSON.parse(fs.readFileSync(path.join(packagePath, "package.json"), "utf8"));
+    } catch (e) {
+      // A package without a readable package.json never matches the plan, so it gets replaced
+    }
+    const realLocation = fs.lstatSync(packagePath).isSymbolicLink() ? getRealLocation(packagePath) : undefined;
+    installed.set(location, {
+      location,
+      name,
+      ...(realLocation && { realLocation }),
+      packageName: manifest.name,
+      version: manifest.version,
+    });
+    if (!realLocation) {
+      readDirectory(path.join(packagePath, "node_modules"), `${location}/node_modules`);
+      return;
+    }
+    // The linked package and its dependencies are siblings in the folder it really lives in
+    const index = realLocation.lastIndexOf("/node_modules/");
+    if (index !== -1) {
+      const directoryLocation = realLocation.slice(0, index + "/node_modules".length);
+      readDirectory(path.join(path.dirname(root), directoryLocation), directoryLocation);
+    }
+  }
+
+  function isPackage(entry: fs.Dirent, entryPath: string): boolean {
+    return (
+      entry.isDirectory() ||
+      (entry.isSymbolicLink() && fs.existsSync(entryPath) && fs.statSync(entryPath).isDirectory())
+    );
+  }
+
+  function readDirectory(directory: string, location: string) {
+    if (visited.has(location) || !fs.existsSync(directory)) {
+      return;
+    }
+    visited.add(location);
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      // Skip files such as leftover tarballs, and hidden folders such as .bin
+      if (!isPackage(entry, path.join(directory, entry.name)) || entry.name.startsWith(".")) {
+        continue;
+      }
+      if (!entry.name.startsWith("@")) {
+        readPackage(path.join(directory, entry.name), `${location}/${entry.name}`, entry.name);
+        continue;
+      }
+      for (const scoped of fs.readdirSync(path.join(directory, entry.name), { withFileTypes: true })) {
+        const name = `${entry.name}/${scoped.name}`;
+        if (isPackage(scoped, path.join(directory, name))) {
+          readPackage(path.join(directory, name), `${location}/${name}`, name);
+        }
+      }
+    }
+  }
+
+  readDirectory(root, "node_modules");
+  return installed;
+}
+
+/**
+ * Whether an installed package is the one a plan entry asks for. Packages from paths and URLs never are, so they are
+ * always reinstalled, since their contents can change without a version bump.
+ */
+export function isInstalledAs(installed: InstalledPackage, dep: DependencyInstallation): boolean {
+  return (
+    !dep.external &&
+    installed.name === dep.name &&
+    installed.packageName === (dep.packageName || dep.name) &&
+    installed.version === dep.version
+  );
+}
+
+/**
+ * Works out how to turn the installed packages into the plan. A package is kept when the same version is already at
+ * its location and everything it is nested in is kept too.
+ */
+export function diffNodeModules(
+  installed: Map<string, InstalledPackage>,
+  plan: InstallationPlan
+): NodeModulesChanges {
+  const planned = new Map(plan.map((dep) => [getInstallLocation(dep), dep]));
+  const kept = new Set<string>();
+  const remove: string[] = [];
+
+  // Sorting puts every package before the packages nested in it
+  for (const location of [...installed.keys()].sort()) {
+    const parent = getParentLocation(location);
+    if (parent && !kept.has(parent)) {
+      continue;
+    }
+    const dep = planned.get(location);
+    if (dep && isInstalledAs(installed.get(location)!, dep)) {
+      kept.add(location);
+    } else {
+      remove.push(location);
+    }
+  }
+
+  const add = plan.filter((dep) => !kept.has(getInstallLocation(dep)));
+
+  // A package that is about to be removed from one place and added in another can be moved instead, as long as the
+  // package it is moving into is staying and it doesn't live inside whatever it is replacing
+  const move: [string, string][] = [];
+  const movable = [...installed.values()].filter((pkg) => !kept.has(pkg.location));
+  const moved = new Set<string>();
+  for (const dep of add) {
+    const to = getInstallLocation(dep);
+    const parent = getParentLocation(to);
+    if (parent && !kept.has(parent)) {
+      continue;
+    }
+    const source = movable.find(
+      (pkg) => !moved.has(pkg.location) && !pkg.location.startsWith(`${to}/`) && isInstalledAs(pkg, dep)
+    );
+    if (source) {
+      moved.add(source.location);
+      move.push([source.location, to]);
+    }
+  }
+
+  return { remove, add, move };
+}
+
+// Deletes the folders a removed package leaves empty, such as its scope folder or its parent's node_modules
+function removeEmptyParents(packagePath: string) {
+  let directory = path.dirname(packagePath);
+  while (
+    directory.startsWith(nodeModulesPath + path.sep) &&
+    fs.existsSync(directory) &&
+    fs.readdirSync(directory).length === 0
+  ) {
+    fs.rmdirSync(directory);
+    directory = path.dirname(directory);
+  }
+}
+
+// Removes what an isolated install left behind: the store, and the links to it at the root of node_modules
+function removeIsolatedLayout() {
+  fs.rmSync(storePath, { recursive: true, force: true });
+  const directories = [nodeModulesPath];
+  for (const directory of directories) {
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      if (entry.isSymbolicLink()) {
+        fs.unlinkSync(path.join(directory, entry.name));
+      } else if (directory === nodeModulesPath && entry.isDirectory() && entry.name.startsWith("@")) {
+        directories.push(path.join(directory, entry.name));
+      }
+    }
+  }
+}
+
+/**
+ * Brings node_modules in line with the plan, moving, removing and installing only the packages that changed
+ */
+export async function syncNodeModules(
+  plan: InstallationPlan,
+  concurrency: number = DEFAULT_CONCURRENCY,
+  registry: RegistryClient = createRegistryClient()
+): Promise<NodeModulesSync> {
+  const toPath = (location: string) => path.join(path.dirname(nodeModulesPath), location);
+  fs.mkdirSync(nodeModulesPath, { recursive: true });
+  removeIsolatedLayout();
+
+  // Move first, then work out what is left to remove and add from where things ended up
+  let movedCount = 0;
+  for (const [from, to] of diffNodeModules(readInstalledPackages(), plan).move) {
+    // Already gone if it was nested in something that moved or was replaced before it
+    if (!fs.existsSync(toPath(from))) {
+      continue;
+    }
+    fs.rmSync(toPath(to), { recursive: true, force: true });
+    fs.mkdirSync(path.dirname(toPath(to)), { recursive: true });
+    fs.renameSync(toPath(from), toPath(to));
+    removeEmptyParents(toPath(from));
+    movedCount++;
+  }
+
+  const installed = readInstalledPackages();
+  const { remove, add } = diffNodeModules(installed, plan);
+  const removed = [...installed.values()].filter((pkg) =>
+    remove.some((location) => pkg.location === location || pkg.location.startsWith(`${location}/`))
+  );
+  for (const location of remove) {
+    fs.rmSync(toPath(location), { recursive: true, force: true });
+    removeEmptyParents(toPath(location));
+  }
+  await installPackages(add, concurrency, registry);
+  syncBinLinks([...readInstalledPackages().keys()]);
+
+  console.log(
+    `Added ${add.length}, removed ${removed.length} and moved ${movedCount} packages ` +
+      `(${plan.length - add.length - movedCount} already up to date)`
+  );
+  return { added: add, removed, moved: movedCount };
+}
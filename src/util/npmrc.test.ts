@@ -0,0 +1,69 @@
+import fs from "fs";
+import {
+  DEFAULT_REGISTRY,
+  getRegistryUrl,
+  getRequestHeaders,
+  loadNpmConfig,
+  parseNpmrc,
+} from "./npmrc";
+import { projectNpmrcPath } from "./paths";
+
+describe("npmrc", () => {
+  afterEach(() => {
+    delete process.env.TEST_NPM_TOKEN;
+  });
+
+  it("parses registries, scopes and auth tokens", () => {
+    process.env.TEST_NPM_TOKEN = "secret";
+    const config = parseNpmrc(
+      [
+        "# a comment",
+        "registry=http://localhost:4873",
+        "@my-org:registry = https://npm.example.com/private/",
+        "//npm.example.com/private/:_authToken=${TEST_NPM_TOKEN}",
+        "save-prefix='~'",
+      ].join("\n")
+    );
+
+    expect(config.registry).toBe("http://localhost:4873/");
+    expect(config.scopes).toEqual({
+      "@my-org": "https://npm.example.com/private/",
+    });
+    expect(config.authTokens).toEqual({ "//npm.example.com/private/": "secret" });
+    expect(config.settings).toEqual({ "save-prefix": "~" });
+  });
+
+  it("picks the registry for a package's scope", () => {
+    const config = parseNpmrc("@my-org:registry=https://npm.example.com/");
+
+    expect(getRegistryUrl("@my-org/utils", config)).toBe("https://npm.example.com/");
+    expect(getRegistryUrl("@other/utils", config)).toBe(DEFAULT_REGISTRY);
+    expect(getRegistryUrl("is-thirteen", config)).toBe(DEFAULT_REGISTRY);
+  });
+
+  it("sends the most specific matching auth token", () => {
+    const config = parseNpmrc(
+      [
+        "//npm.example.com/:_authToken=host-token",
+        "//npm.example.com/private/:_authToken=private-token",
+      ].join("\n")
+    );
+
+    expect(
+      getRequestHeaders("https://npm.example.com/private/pkg/-/pkg-1.0.0.tgz", config)
+    ).toEqual({ Authorization: "Bearer private-token" });
+    expect(getRequestHeaders("https://npm.example.com/pkg", config)).toEqual({
+      Authorization: "Bearer host-token",
+    });
+    expect(getRequestHeaders("https://registry.npmjs.org/pkg", config)).toEqual({});
+  });
+
+  it("lets the project .npmrc override the defaults", () => {
+    fs.writeFileSync(projectNpmrcPath, "registry=https://mirror.example.com\n");
+    try {
+      expect(loadNpmConfig().registry).toBe("https://mirror.example.com/");
+    } finally {
+      fs.unlinkSync(projectNpmrcPath);
+    }
+  });
+});
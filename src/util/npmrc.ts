@@ -0,0 +1,111 @@
+import fs from "fs";
+import { projectNpmrcPath, userNpmrcPath } from "./paths";
+
+export const DEFAULT_REGISTRY = "https://registry.npmjs.org/";
+
+/**
+ * registry: the default registry URL, always ending in a slash
+ * scopes: registry URLs for scoped packages, keyed by scope (e.g. "@my-org")
+ * authTokens: bearer tokens keyed by the registry URL they apply to, without its protocol (e.g. "//registry.example.com/")
+ * settings: every other key/value pair, for options such as save-prefix
+ */
+export interface NpmConfig {
+  registry: string;
+  scopes: Record<string, string>;
+  authTokens: Record<string, string>;
+  settings: Record<string, string>;
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith("/") ? url : `${url}/`;
+}
+
+/**
+ * Parses the contents of an .npmrc file into `config`, overriding any keys it already has. Values may reference
+ * environment variables as ${NAME}.
+ */
+export function parseNpmrc(
+  content: string,
+  config: NpmConfig = {
+    registry: DEFAULT_REGISTRY,
+    scopes: {},
+    authTokens: {},
+    settings: {},
+  }
+): NpmConfig {
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+
+    const separator = line.indexOf("=");
+    if (separator === -1) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim();
+    const value = line
+      .slice(separator + 1)
+      .trim()
+      .replace(/^(["'])(.*)\1$/, "$2")
+      .replace(/\$\{([^}]+)\}/g, (_, name) => process.env[name] || "");
+
+    if (key === "registry") {
+      config.registry = withTrailingSlash(value);
+    } else if (key.startsWith("@") && key.endsWith(":registry")) {
+      config.scopes[key.slice(0, -":registry".length)] = withTrailingSlash(value);
+    } else if (key.startsWith("//") && key.endsWith(":_authToken")) {
+      config.authTokens[key.slice(0, -":_authToken".length)] = value;
+    } else {
+      config.settings[key] = value;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Loads the user's ~/.npmrc followed by the project's .npmrc, so that project settings take precedence
+ */
+export function loadNpmConfig(): NpmConfig {
+  let config: NpmConfig | undefined;
+  for (const npmrcPath of [userNpmrcPath, projectNpmrcPath]) {
+    if (fs.existsSync(npmrcPath)) {
+      config = parseNpmrc(fs.readFileSync(npmrcPath, "utf8"), config);
+    }
+  }
+  return config || parseNpmrc("");
+}
+
+/**
+ * Returns the registry URL that serves a package, taking its scope into account
+ */
+export function getRegistryUrl(
+  packageName: string,
+  config: NpmConfig = loadNpmConfig()
+): string {
+  if (packageName.startsWith("@")) {
+    const scope = packageName.split("/")[0];
+    if (config.scopes[scope]) {
+      return config.scopes[scope];
+    }
+  }
+  return config.registry;
+}
+
+/**
+ * Returns the headers to send with a request to url, including the most specific matching auth token
+ */
+export function getRequestHeaders(
+  url: string,
+  config: NpmConfig = loadNpmConfig()
+): Record<string, string> {
+  const target = url.replace(/^https?:/, "");
+  const matches = Object.keys(config.authTokens)
+    .filter((prefix) => target.startsWith(withTrailingSlash(prefix)))
+    .sort((a, b) => b.length - a.length);
+
+  return matches.length > 0
+    ? { Authorization: `Bearer ${config.authTokens[matches[0]]}` }
+    : {};
+}
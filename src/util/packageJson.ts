@@ -13,3 +13,41 @@ export const DEFAULT_PACKAGE_JSON: IPackageJson = {
   license: "Apache-2.0",
   dependencies: {},
 };
+
+export const DEPENDENCY_TYPES = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+] as const;
+
+export type DependencyType = (typeof DEPENDENCY_TYPES)[number];
+
+/**
+ * all: every top-level dependency, with dependencies taking precedence over devDependencies and optionalDependencies
+ * over both, as npm does
+ * dev: the names that only appear in devDependencies
+ * optional: the names that appear in optionalDependencies
+ */
+export interface TopLevelDependencies {
+  all: Record<string, string>;
+  dev: Set<string>;
+  optional: Set<string>;
+}
+
+export function getTopLevelDependencies(
+  packageJson: IPackageJson
+): TopLevelDependencies {
+  const dependencies = packageJson.dependencies || {};
+  const devDependencies = packageJson.devDependencies || {};
+  const optionalDependencies = packageJson.optionalDependencies || {};
+
+  return {
+    all: { ...devDependencies, ...dependencies, ...optionalDependencies },
+    dev: new Set(
+      Object.keys(devDependencies).filter(
+        (name) => !(name in dependencies) && !(name in optionalDependencies)
+      )
+    ),
+    optional: new Set(Object.keys(optionalDependencies)),
+  };
+}
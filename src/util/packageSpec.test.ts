@@ -0,0 +1,88 @@
+import { parseDependencySpec, parsePackageSpec, specAllowsVersion } from "./packageSpec";
+
+describe("parsePackageSpec", () => {
+  it("parses names with versions, ranges and tags", () => {
+    expect(parsePackageSpec("is-thirteen")).toMatchObject({
+      type: "tag",
+      name: "is-thirteen",
+      rawSpec: "",
+      fetchSpec: "latest",
+    });
+    expect(parsePackageSpec("is-thirteen@2.0.0")).toMatchObject({
+      type: "version",
+      name: "is-thirteen",
+      fetchSpec: "2.0.0",
+    });
+    expect(parsePackageSpec("@types/node@^20.0.0")).toMatchObject({
+      type: "range",
+      name: "@types/node",
+      fetchSpec: "^20.0.0",
+    });
+    expect(parsePackageSpec("@types/node")).toMatchObject({
+      type: "tag",
+      name: "@types/node",
+    });
+    for (const range of ["~1.2", ">=2 <3", "1.x", "*"]) {
+      expect(parsePackageSpec(`pkg@${range}`)).toMatchObject({
+        type: "range",
+        rawSpec: range,
+        fetchSpec: range,
+      });
+    }
+    expect(parsePackageSpec("react@next")).toMatchObject({
+      type: "tag",
+      fetchSpec: "next",
+    });
+  });
+
+  it("parses aliases", () => {
+    const spec = parsePackageSpec("react17@npm:react@^17.0.0");
+
+    expect(spec).toMatchObject({
+      type: "alias",
+      name: "react17",
+      rawSpec: "npm:react@^17.0.0",
+      fetchSpec: "^17.0.0",
+    });
+    expect(spec.subSpec).toMatchObject({ type: "range", name: "react" });
+    expect(() => parsePackageSpec("bad@npm:./local")).toThrow("Invalid alias");
+  });
+
+  it("parses paths, tarball URLs and git repositories", () => {
+    expect(parsePackageSpec("./packages/util")).toMatchObject({
+      type: "file",
+      name: undefined,
+      fetchSpec: "./packages/util",
+    });
+    expect(parsePackageSpec("util@file:../util.tgz")).toMatchObject({
+      type: "file",
+      name: "util",
+      fetchSpec: "../util.tgz",
+    });
+    expect(parsePackageSpec("https://example.com/util-1.0.0.tgz")).toMatchObject({
+      type: "remote",
+      name: undefined,
+    });
+    expect(parsePackageSpec("github:user/repo")).toMatchObject({ type: "git" });
+    expect(parsePackageSpec("user/repo#main")).toMatchObject({ type: "git" });
+    expect(parsePackageSpec("repo@git+https://example.com/repo.git")).toMatchObject({
+      type: "git",
+      name: "repo",
+    });
+  });
+
+  it("rejects invalid names and specs", () => {
+    expect(() => parsePackageSpec("not a name")).toThrow("Invalid package name");
+    expect(() => parseDependencySpec("pkg", "not a range!")).toThrow("Invalid version");
+  });
+});
+
+describe("specAllowsVersion", () => {
+  it("checks versions, ranges and aliases, and allows anything for other specs", () => {
+    expect(specAllowsVersion("pkg", "^1.0.0", "1.4.0")).toBe(true);
+    expect(specAllowsVersion("pkg", "^1.0.0", "2.0.0")).toBe(false);
+    expect(specAllowsVersion("pkg", "npm:other@1.0.0", "1.0.1")).toBe(false);
+    expect(specAllowsVersion("pkg", "next", "3.0.0")).toBe(true);
+    expect(specAllowsVersion("pkg", "file:../pkg", "0.0.1")).toBe(true);
+  });
+});
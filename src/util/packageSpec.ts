@@ -0,0 +1,145 @@
+import path from "path";
+import semver from "semver";
+
+/**
+ * version: an exact version such as "1.2.3"
+ * range: a semver range such as "^1.2.0", "~1.2", ">=2 <3" or "1.x"
+ * tag: a dist-tag such as "latest" or "next"
+ * alias: "npm:<name>@<spec>", installing another registry package under this name
+ * file: "file:<path>", a local directory or tarball
+ * remote: an http(s) URL of a tarball
+ * git: a git repository, which is recognized but not installable
+ */
+export type PackageSpecType =
+  | "version"
+  | "range"
+  | "tag"
+  | "alias"
+  | "file"
+  | "remote"
+  | "git";
+
+/**
+ * name: the name the package is installed under, undefined for bare paths and URLs until their manifest is read
+ * rawSpec: everything after the name, exactly as it was typed ("" when only a name was given)
+ * fetchSpec: the version, range, tag, path or URL to fetch, with prefixes such as "file:" removed
+ * subSpec: for aliases, the spec of the package that is really installed
+ */
+export interface PackageSpec {
+  type: PackageSpecType;
+  name?: string;
+  rawSpec: string;
+  fetchSpec: string;
+  subSpec?: PackageSpec;
+}
+
+const GIT_PREFIX = /^(git\+[a-z]+:|git:|github:|gitlab:|bitbucket:|gist:)/i;
+const GIT_URL = /\.git(#.*)?$/i;
+const GITHUB_SHORTHAND = /^[^@./\s][^\s/:]*\/[^\s/:]+(#.*)?$/;
+const TARBALL_URL = /^https?:\/\//i;
+const LOCAL_PATH = /^(\.{1,2}[\\/]|\.{1,2}$|[\\/]|~[\\/]|[a-zA-Z]:[\\/])/;
+
+/**
+ * Returns true for specs that are resolved through the registry rather than from a path, URL or repository
+ */
+export function isRegistrySpec(spec: PackageSpec): boolean {
+  return ["version", "range", "tag", "alias"].includes(spec.type);
+}
+
+/**
+ * Parses the spec of a dependency as it appears in package.json, e.g. ("react", "^18.0.0")
+ */
+export function parseDependencySpec(name: string, rawSpec: string): PackageSpec {
+  const spec = rawSpec.trim();
+
+  if (spec === "") {
+    return { type: "tag", name, rawSpec, fetchSpec: "latest" };
+  }
+  if (spec.startsWith("npm:")) {
+    const subSpec = parsePackageSpec(spec.slice("npm:".length));
+    if (!subSpec.name || !isRegistrySpec(subSpec) || subSpec.type === "alias") {
+      throw new Error(`Invalid alias ${name}@${rawSpec}: aliases must point at a registry package`);
+    }
+    return { type: "alias", name, rawSpec, fetchSpec: subSpec.fetchSpec, subSpec };
+  }
+  if (spec.startsWith("file:")) {
+    return { type: "file", name, rawSpec, fetchSpec: spec.slice("file:".length) };
+  }
+  if (GIT_PREFIX.test(spec) || GIT_URL.test(spec) || GITHUB_SHORTHAND.test(spec)) {
+    return { type: "git", name, rawSpec, fetchSpec: spec };
+  }
+  if (TARBALL_URL.test(spec)) {
+    return { type: "remote", name, rawSpec, fetchSpec: spec };
+  }
+  if (LOCAL_PATH.test(spec)) {
+    return { type: "file", name, rawSpec, fetchSpec: spec };
+  }
+
+  const version = semver.valid(spec, { loose: true });
+  if (version) {
+    return { type: "version", name, rawSpec, fetchSpec: version };
+  }
+  if (semver.validRange(spec, { loose: true })) {
+    return { type: "range", name, rawSpec, fetchSpec: spec };
+  }
+  if (encodeURIComponent(spec) === spec) {
+    return { type: "tag", name, rawSpec, fetchSpec: spec };
+  }
+
+  throw new Error(`Invalid version, range or tag for ${name}: "${rawSpec}"`);
+}
+
+/**
+ * Parses a package argument as typed on the command line, e.g. "react", "@types/node@^20", "alias@npm:react@18",
+ * "./local-package", "file:../pkg.tgz" or "https://example.com/pkg.tgz"
+ */
+export function parsePackageSpec(arg: string): PackageSpec {
+  // Paths, URLs and repositories can be given without a name, which then comes from their package.json
+  if (
+    arg.startsWith("file:") ||
+    LOCAL_PATH.test(arg) ||
+    TARBALL_URL.test(arg) ||
+    GIT_PREFIX.test(arg)
+  ) {
+    return { ...parseDependencySpec("", arg), name: undefined };
+  }
+
+  // Scoped names start with "@", so the spec starts at the first "@" after that
+  const separator = arg.indexOf("@", arg.startsWith("@") ? 1 : 0);
+  const name = separator === -1 ? arg : arg.slice(0, separator);
+  const rawSpec = separator === -1 ? "" : arg.slice(separator + 1);
+
+  if (!isValidPackageName(name)) {
+    // Anything else that contains a slash, such as "user/repo", is a GitHub shorthand
+    if (GITHUB_SHORTHAND.test(arg)) {
+      return { ...parseDependencySpec("", arg), name: undefined };
+    }
+    throw new Error(`Invalid package name "${name}"`);
+  }
+
+  return parseDependencySpec(name, rawSpec);
+}
+
+/**
+ * Returns false only when the spec is a version, range or alias that `version` doesn't satisfy. Tags, paths and URLs
+ * can't be checked without looking them up, so they allow any version.
+ */
+export function specAllowsVersion(name: string, rawSpec: string, version: string): boolean {
+  const spec = parseDependencySpec(name, rawSpec);
+  const target = spec.subSpec || spec;
+  if (target.type !== "version" && target.type !== "range") {
+    return true;
+  }
+  return semver.satisfies(version, target.fetchSpec, { loose: true });
+}
+
+export function isValidPackageName(name: string): boolean {
+  return /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/i.test(name);
+}
+
+/**
+ * Returns the absolute path of a file spec, which is relative to the directory of the package.json it appears in
+ */
+export function resolveFileSpec(spec: PackageSpec, projectDir: string): string {
+  return path.resolve(projectDir, spec.fetchSpec.replace(/^~(?=[\\/])/, process.env.HOME || "~"));
+}
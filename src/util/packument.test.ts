@@ -0,0 +1,105 @@
+import { InvalidMetadataError, validatePackument, validateVersionManifest } from "./packument";
+
+function version(fields: Record<string, unknown> = {}) {
+  return {
+    name: "my-package",
+    version: "1.0.0",
+    dist: { tarball: "https://registry.npmjs.org/my-package/-/my-package-1.0.0.tgz", shasum: "0".repeat(40) },
+    ...fields,
+  };
+}
+
+describe("packument validation", () => {
+  it("accepts full and abbreviated packuments", () => {
+    const full = {
+      name: "my-package",
+      "dist-tags": { latest: "1.0.0" },
+      versions: { "1.0.0": version({ description: "kept as is", engines: { node: ">=18" }, os: ["!win32"] }) },
+      time: { created: "2026-01-01T00:00:00.000Z", "1.0.0": "2026-01-01T00:00:00.000Z" },
+    };
+    const abbreviated = {
+      name: "my-package",
+      "dist-tags": { latest: "1.0.0" },
+      versions: { "1.0.0": version({ hasInstallScript: true, cpu: ["x64"] }) },
+      modified: "2026-01-01T00:00:00.000Z",
+    };
+
+    expect(validatePackument("my-package", full)).toBe(full);
+    expect(validatePackument("my-package", abbreviated)).toBe(abbreviated);
+  });
+
+  it("says which field of which package is malformed", () => {
+    const error = (() => {
+      try {
+        validateVersionManifest("my-package", version({ dependencies: { semver: 7 } }), 'versions["1.0.0"]');
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(InvalidMetadataError);
+    expect(error).toMatchObject({ packageName: "my-package", field: 'versions["1.0.0"].dependencies["semver"]' });
+    expect(() => validatePackument("my-package", "<html>")).toThrow(
+      "Invalid registry metadata for my-package: the packument must be an object"
+    );
+    expect(() => validateVersionManifest("my-package", version({ dist: { tarball: "x.tgz" } }))).toThrow(
+      "Invalid registry metadata for my-package: version.dist.shasum must be a string"
+    );
+  });
+
+  it("leaves out malformed versions instead of rejecting the package", () => {
+    const packument = {
+      name: "my-package",
+      "dist-tags": { latest: "2.0.0" },
+      versions: {
+        "0.1.0": version({ version: "0.1.0", dependencies: { semver: 7 } }),
+        "1.0.0": version({ dist: "missing" }),
+        "2.0.0": version({ version: "2.0.0" }),
+      },
+    };
+
+    expect(Object.keys(validatePackument("my-package", packument).versions)).toEqual(["2.0.0"]);
+  });
+
+  it("normalizes the shapes old versions were published with", () => {
+    const manifest = validateVersionManifest(
+      "@scope/tool",
+      version({
+        name: "@scope/tool",
+        dependencies: ["semver ^7.0.0", "tar"],
+        devDependencies: [],
+        bin: "./cli.js",
+        os: "linux",
+        // As published by qs 5.1.0 to 6.0.0
+        engines: ">=0.10.40",
+      })
+    );
+
+    expect(manifest.dependencies).toEqual({ semver: "^7.0.0", tar: "*" });
+    expect(manifest.devDependencies).toEqual({});
+    expect(manifest.bin).toEqual({ tool: "./cli.js" });
+    expect(manifest.os).toEqual(["linux"]);
+    expect(manifest.engines).toEqual({ node: ">=0.10.40" });
+  });
+
+  it("drops malformed fields that installs can do without", () => {
+    const manifest = validateVersionManifest(
+      "my-package",
+      version({
+        dist: { ...version().dist, fileCount: "12" },
+        devDependencies: 7,
+        deprecated: false,
+        engines: ["node >=0.4"],
+        cpu: [64],
+        bin: 42,
+        hasInstallScript: "yes",
+        scripts: { test: null },
+      })
+    );
+
+    for (const field of ["devDependencies", "deprecated", "engines", "cpu", "bin", "hasInstallScript", "scripts"]) {
+      expect(manifest).not.toHaveProperty(field);
+    }
+    expect(manifest.dist).not.toHaveProperty("fileCount");
+    expect(manifest.dist.shasum).toBe("0".repeat(40));
+  });
+});
@@ -0,0 +1,181 @@
+import { Packument, VersionManifest } from "../types";
+
+/**
+ * The Accept header that asks for the abbreviated packument format, which only has the fields installs need and is
+ * often a fraction of the size of the full one. Registries that don't support it send the full format instead.
+ */
+export const ABBREVIATED_PACKUMENT_ACCEPT = "application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8";
+
+/**
+ * Thrown when the registry sends metadata that doesn't have the shape of a packument or version manifest. `field`
+ * says where the problem is, such as `versions["1.0.0"].dist.tarball`.
+ */
+export class InvalidMetadataError extends Error {
+  constructor(
+    readonly packageName: string,
+    readonly field: string,
+    problem: string
+  ) {
+    super(`Invalid registry metadata for ${packageName}: ${field} ${problem}`);
+    this.name = "InvalidMetadataError";
+  }
+}
+
+type Checker = (value: unknown, field: string) => void;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function createChecker(packageName: string) {
+  const fail = (field: string, problem: string): never => {
+    throw new InvalidMetadataError(packageName, field, problem);
+  };
+
+  const object: Checker = (value, field) => {
+    if (!isRecord(value)) {
+      fail(field, "must be an object");
+    }
+  };
+  const string: Checker = (value, field) => {
+    if (typeof value !== "string") {
+      fail(field, "must be a string");
+    }
+  };
+  const optional = (check: Checker): Checker => (value, field) => {
+    if (value !== undefined) {
+      check(value, field);
+    }
+  };
+  const recordOf = (check: Checker): Checker => (value, field) => {
+    object(value, field);
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+      check(entry, `${field}[${JSON.stringify(key)}]`);
+    }
+  };
+  const stringArray: Checker = (value, field) => {
+    if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string")) {
+      fail(field, "must be an array of strings");
+    }
+  };
+  const number: Checker = (value, field) => {
+    if (typeof value !== "number") {
+      fail(field, "must be a number");
+    }
+  };
+  const boolean: Checker = (value, field) => {
+    if (typeof value !== "boolean") {
+      fail(field, "must be a boolean");
+    }
+  };
+  // Checks a field installs can do without, deleting it from its object instead of failing when it is malformed
+  const droppable = (check: Checker) => (record: Record<string, unknown>, key: string, field: string) => {
+    try {
+      optional(check)(record[key], field);
+    } catch (e) {
+      if (!(e instanceof InvalidMetadataError)) {
+        throw e;
+      }
+      delete record[key];
+    }
+  };
+
+  return { object, string, optional, recordOf, stringArray, number, boolean, droppable };
+}
+
+// Turns dependencies listed as an array of "name range" entries into an object, leaving any other value as it is
+function normalizeDependencyList(manifest: Record<string, unknown>, key: string) {
+  const dependencies = manifest[key];
+  if (Array.isArray(dependencies) && dependencies.every((entry) => typeof entry === "string")) {
+    manifest[key] = Object.fromEntries(
+      dependencies.map((entry: string) => {
+        const [name, ...range] = entry.trim().split(/\s+/);
+        return [name, range.join(" ") || "*"];
+      })
+    );
+  }
+}
+
+/**
+ * Checks that a version manifest from the registry has the fields installs rely on, with the right types, and returns
+ * it typed. A malformed name, version, dist or dependency field rejects the manifest. Shapes that old versions were
+ * published with are normalized: dependencies listed as an array become an object (of "name range" entries,
+ * defaulting to any version), a `bin` given as a single path is put under the package's own name, `engines` given as
+ * a single range applies to node, and a single `os` or `cpu` becomes a list. Any other optional field that is still
+ * malformed, such as `deprecated: false` or `engines` given as an array, is dropped.
+ */
+export function validateVersionManifest(packageName: string, data: unknown, field = "version"): VersionManifest {
+  const check = createChecker(packageName);
+  check.object(data, field);
+  const manifest = data as Record<string, unknown>;
+
+  check.string(manifest.name, `${field}.name`);
+  check.string(manifest.version, `${field}.version`);
+  check.object(manifest.dist, `${field}.dist`);
+  const dist = manifest.dist as Record<string, unknown>;
+  check.string(dist.tarball, `${field}.dist.tarball`);
+  check.string(dist.shasum, `${field}.dist.shasum`);
+  check.optional(check.string)(dist.integrity, `${field}.dist.integrity`);
+  check.droppable(check.number)(dist, "fileCount", `${field}.dist.fileCount`);
+  check.droppable(check.number)(dist, "unpackedSize", `${field}.dist.unpackedSize`);
+
+  for (const dependencyField of ["dependencies", "optionalDependencies", "peerDependencies"]) {
+    normalizeDependencyList(manifest, dependencyField);
+    check.optional(check.recordOf(check.string))(manifest[dependencyField], `${field}.${dependencyField}`);
+  }
+  // Installs never read the devDependencies of a published version
+  normalizeDependencyList(manifest, "devDependencies");
+  check.droppable(check.recordOf(check.string))(manifest, "devDependencies", `${field}.devDependencies`);
+  check.optional(check.recordOf(check.object))(manifest.peerDependenciesMeta, `${field}.peerDependenciesMeta`);
+
+  if (typeof manifest.engines === "string") {
+    manifest.engines = { node: manifest.engines };
+  }
+  check.droppable(check.recordOf(check.string))(manifest, "engines", `${field}.engines`);
+  for (const platformField of ["os", "cpu"]) {
+    if (typeof manifest[platformField] === "string") {
+      manifest[platformField] = [manifest[platformField]];
+    }
+    check.droppable(check.stringArray)(manifest, platformField, `${field}.${platformField}`);
+  }
+  if (typeof manifest.bin === "string") {
+    manifest.bin = { [(manifest.name as string).replace(/^@[^/]+\//, "")]: manifest.bin };
+  }
+  check.droppable(check.recordOf(check.string))(manifest, "bin", `${field}.bin`);
+  check.droppable(check.string)(manifest, "deprecated", `${field}.deprecated`);
+  check.droppable(check.boolean)(manifest, "hasInstallScript", `${field}.hasInstallScript`);
+  check.droppable(check.recordOf(check.string))(manifest, "scripts", `${field}.scripts`);
+
+  return manifest as unknown as VersionManifest;
+}
+
+/**
+ * Checks that a packument, in the full or abbreviated format, has the shape installs rely on, and returns it typed.
+ * Versions that are malformed (which happens with some published long ago) are left out, so that they can't make the
+ * rest of the package uninstallable.
+ */
+export function validatePackument(packageName: string, data: unknown): Packument {
+  const check = createChecker(packageName);
+  check.object(data, "the packument");
+  const packument = data as Record<string, unknown>;
+
+  check.string(packument.name, "name");
+  check.recordOf(check.string)(packument["dist-tags"], "dist-tags");
+  check.object(packument.versions, "versions");
+  const versions = packument.versions as Record<string, unknown>;
+  for (const [version, manifest] of Object.entries(versions)) {
+    try {
+      validateVersionManifest(packageName, manifest, `versions[${JSON.stringify(version)}]`);
+    } catch (e) {
+      if (!(e instanceof InvalidMetadataError)) {
+        throw e;
+      }
+      delete versions[version];
+    }
+  }
+  // Unpublished packages have an object under time.unpublished, so only the top level is checked
+  check.optional(check.object)(packument.time, "time");
+  check.optional(check.string)(packument.modified, "modified");
+
+  return packument as unknown as Packument;
+}
@@ -1,4 +1,5 @@
 import fs from "fs";
+import os from "os";
 import path from "path";
 import { DEFAULT_PACKAGE_JSON } from "./packageJson";
 
@@ -6,8 +7,16 @@ export const outputDir = path.join(process.cwd(), "output");
 export const packageJsonPath = path.join(outputDir, "package.json");
 export const packageLockJsonPath = path.join(outputDir, "package-lock.json");
 export const nodeModulesPath = path.join(outputDir, "node_modules");
+// Where the isolated layout keeps one copy of each name@version
+export const storePath = path.join(nodeModulesPath, ".store");
+export const projectNpmrcPath = path.join(outputDir, ".npmrc");
+export const userNpmrcPath = path.join(os.homedir(), ".npmrc");
 export const globalCachePath = path.join(process.cwd(), "global-cache");
 export const cacheManifestPath = path.join(globalCachePath, "manifest.json");
+// Registry responses, kept so that installs can revalidate them cheaply or skip the registry altogether
+export const metadataCachePath = path.join(globalCachePath, "metadata");
+// Tarballs are extracted here, on the same device as the store, so they can be renamed into it
+export const cacheTempPath = path.join(globalCachePath, "tmp");
 
 export function setupFreshOutputDir() {
   if (fs.existsSync(outputDir)) {
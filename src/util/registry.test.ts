@@ -0,0 +1,102 @@
+import fs from "fs";
+import { getCachedMetadata } from "./cache";
+import * as http from "./http";
+import { DEFAULT_REGISTRY } from "./npmrc";
+import { ABBREVIATED_PACKUMENT_ACCEPT } from "./packument";
+import { metadataCachePath } from "./paths";
+import { getPackageInfo, getPackageMetadata, OfflineError } from "./registry";
+
+function version(number: string) {
+  return {
+    name: "cached-package",
+    version: number,
+    dist: { tarball: `${DEFAULT_REGISTRY}cached-package/-/cached-package-${number}.tgz`, shasum: "0".repeat(40) },
+  };
+}
+
+const packument = {
+  name: "cached-package",
+  "dist-tags": { latest: "1.1.0" },
+  versions: { "1.0.0": version("1.0.0"), "1.1.0": version("1.1.0") },
+};
+
+function jsonResponse(body: unknown, headers: Record<string, string> = {}): http.JsonResponse {
+  return { statusCode: 200, headers, body };
+}
+
+describe("registry metadata cache", () => {
+  let requestJsonMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fs.rmSync(metadataCachePath, { recursive: true, force: true });
+    requestJsonMock = jest.spyOn(http, "requestJson");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(metadataCachePath, { recursive: true, force: true });
+  });
+
+  it("revalidates cached metadata with its ETag and Last-Modified headers", async () => {
+    requestJsonMock.mockResolvedValueOnce(
+      jsonResponse(packument, { etag: '"v1"', "last-modified": "Mon, 19 Oct 2026 10:00:00 GMT" })
+    );
+    expect(await getPackageMetadata("cached-package")).toEqual(packument);
+    expect(getCachedMetadata(`${DEFAULT_REGISTRY}cached-package`)).toMatchObject({ etag: '"v1"', data: packument });
+
+    requestJsonMock.mockResolvedValueOnce({ statusCode: 304, headers: {}, body: undefined });
+    expect(await getPackageMetadata("cached-package")).toEqual(packument);
+    expect(requestJsonMock.mock.calls[1][1].headers).toEqual({
+      Accept: ABBREVIATED_PACKUMENT_ACCEPT,
+      "If-None-Match": '"v1"',
+      "If-Modified-Since": "Mon, 19 Oct 2026 10:00:00 GMT",
+    });
+  });
+
+  it("uses cached metadata without asking the registry when preferring offline", async () => {
+    requestJsonMock.mockResolvedValueOnce(jsonResponse(packument));
+    await getPackageMetadata("cached-package");
+
+    expect(await getPackageMetadata("cached-package", "prefer-offline")).toEqual(packument);
+    expect((await getPackageInfo({ name: "cached-package", version: "latest" }, "prefer-offline")).version).toBe(
+      "1.1.0"
+    );
+    expect(requestJsonMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("fetches again when preferring offline and the cached metadata lacks the version", async () => {
+    requestJsonMock.mockResolvedValueOnce(jsonResponse(packument));
+    await getPackageMetadata("cached-package");
+
+    const updated = {
+      ...packument,
+      versions: { ...packument.versions, "2.0.0": version("2.0.0") },
+    };
+    requestJsonMock.mockResolvedValueOnce(jsonResponse(updated));
+    expect((await getPackageInfo({ name: "cached-package", version: "^2.0.0" }, "prefer-offline")).version).toBe(
+      "2.0.0"
+    );
+    expect(requestJsonMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("never goes to the registry when offline", async () => {
+    await expect(getPackageMetadata("cached-package", "offline")).rejects.toThrow(OfflineError);
+
+    requestJsonMock.mockResolvedValueOnce(jsonResponse(packument));
+    await getPackageMetadata("cached-package");
+    expect((await getPackageInfo({ name: "cached-package", version: "1.0.0" }, "offline")).version).toBe("1.0.0");
+    await expect(getPackageInfo({ name: "cached-package", version: "^2.0.0" }, "offline")).rejects.toThrow(
+      "No version of cached-package satisfies ^2.0.0"
+    );
+    expect(requestJsonMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects malformed metadata without caching it", async () => {
+    requestJsonMock.mockResolvedValueOnce(jsonResponse({ ...packument, versions: [] }));
+
+    await expect(getPackageMetadata("cached-package")).rejects.toThrow(
+      "Invalid registry metadata for cached-package: versions must be an object"
+    );
+    expect(getCachedMetadata(`${DEFAULT_REGISTRY}cached-package`)).toBeUndefined();
+  });
+});
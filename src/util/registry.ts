@@ -1,31 +1,153 @@
-import { Dependency } from "../types";
+import semver from "semver";
+import { Readable } from "stream";
+import { Dependency, Packument, VersionManifest } from "../types";
+import { addMetadataToCache, CacheMode, getCachedMetadata } from "./cache";
+import { request, requestJson } from "./http";
+import { getRegistryUrl } from "./npmrc";
+import { ABBREVIATED_PACKUMENT_ACCEPT, validatePackument, validateVersionManifest } from "./packument";
+import { isRegistrySpec, parseDependencySpec } from "./packageSpec";
 
-export async function getPackageInfo(dep: Dependency): Promise<any> {
+/**
+ * Where packages are looked up and downloaded from
+ *
+ * getPackument: the full metadata of a package, with its dist-tags and every published version
+ * getVersion: the manifest of the version that best matches a dependency's spec (a version, range, tag or alias)
+ * fetchTarball: streams the tarball at a URL, as found in a version's dist.tarball or a dependency on a tarball URL;
+ * `resource` names the package it holds in errors
+ */
+export interface RegistryClient {
+  getPackument(name: string): Promise<Packument>;
+  getVersion(dep: Dependency): Promise<VersionManifest>;
+  fetchTarball(url: string, resource?: string): Promise<Readable>;
+}
+
+/**
+ * Scoped names are requested as "@scope%2fname", which every registry implementation accepts
+ */
+export function encodePackageName(name: string): string {
+  return name.replace("/", "%2f");
+}
+
+/**
+ * Thrown in offline mode for anything that would have to be fetched from the network
+ */
+export class OfflineError extends Error {
+  constructor(readonly resource: string) {
+    super(`${resource} is not cached, and can't be fetched in offline mode`);
+    this.name = "OfflineError";
+  }
+}
+
+/**
+ * Fetches the manifest of the version of dep that best matches its spec. Exact versions and dist-tags are requested
+ * directly when online, ranges (and everything when offline) are resolved against the full package metadata, and
+ * aliases are followed to the real package.
+ */
+export async function getPackageInfo(dep: Dependency, cacheMode: CacheMode = "online"): Promise<VersionManifest> {
+  const { name, spec } = parseRegistryDependency(dep);
+
+  // Outside online mode, everything is resolved against the (possibly cached) package metadata
+  if (spec.type === "range" || cacheMode !== "online") {
+    const metadata = await getPackageMetadata(name, cacheMode);
+    const manifest = findVersion(metadata, spec.type, spec.fetchSpec);
+    if (manifest) {
+      return manifest;
+    }
+    // Cached metadata may predate the version that was asked for
+    if (cacheMode === "prefer-offline") {
+      return getPackageInfo(dep, "online");
+    }
+    throw new Error(`No version of ${name} satisfies ${spec.fetchSpec}`);
+  }
+
+  const url = `${getRegistryUrl(name)}${encodePackageName(name)}/${spec.fetchSpec}`;
+  const { body } = await requestJson(url, { resource: `${name}@${spec.fetchSpec}` });
+  return validateVersionManifest(name, body);
+}
+
+/**
+ * Works out which package a registry dependency refers to (following aliases) and what it asks for
+ */
+export function parseRegistryDependency(dep: Dependency): { name: string; spec: { type: string; fetchSpec: string } } {
   if (!dep.name || !dep.version) {
     throw new Error("Invalid dependency object");
   }
-  const absoluteVersion = (
-    dep.version.startsWith("^") ? dep.version.slice(1) : dep.version
-  ).split(" ")[0];
-  const resp = await fetch(
-    `https://registry.npmjs.org/${dep.name}/${absoluteVersion}`,
-    {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-      },
-    }
-  );
-  const data = await resp.json();
-  return data;
+  const parsed = parseDependencySpec(dep.name, dep.version);
+  if (!isRegistrySpec(parsed)) {
+    throw new Error(`${dep.name}@${dep.version} is not a registry dependency`);
+  }
+  const spec = parsed.subSpec || parsed;
+  return { name: spec.name || dep.name, spec: { type: spec.type, fetchSpec: spec.fetchSpec } };
+}
+
+/**
+ * Picks the manifest that a version, range or dist-tag resolves to from package metadata, if any
+ */
+export function findVersion(metadata: Packument, type: string, fetchSpec: string): VersionManifest | undefined {
+  const versions = Object.keys(metadata.versions);
+  const version = type === "range"
+    ? semver.maxSatisfying(versions, fetchSpec)
+    : type === "tag"
+      ? metadata["dist-tags"][fetchSpec]
+      : fetchSpec;
+  return version ? metadata.versions[version] : undefined;
+}
+
+/**
+ * Fetches the metadata of a package, in the abbreviated format when the registry supports it. Responses are validated
+ * and cached on disk: online, they are revalidated with the ETag and Last-Modified headers the registry sent, and
+ * otherwise used as they are.
+ */
+export async function getPackageMetadata(name: string, cacheMode: CacheMode = "online"): Promise<Packument> {
+  const url = `${getRegistryUrl(name)}${encodePackageName(name)}`;
+  const cached = getCachedMetadata(url);
+  if (cached && cacheMode !== "online") {
+    return validatePackument(name, cached.data);
+  }
+  if (cacheMode === "offline") {
+    throw new OfflineError(`The metadata of ${name}`);
+  }
+
+  const headers: Record<string, string> = { Accept: ABBREVIATED_PACKUMENT_ACCEPT };
+  if (cached?.etag) {
+    headers["If-None-Match"] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers["If-Modified-Since"] = cached.lastModified;
+  }
+  const response = await requestJson(url, { resource: `the metadata of ${name}`, headers });
+  if (response.statusCode === 304 && cached) {
+    return validatePackument(name, cached.data);
+  }
+
+  const packument = validatePackument(name, response.body);
+  addMetadataToCache({
+    url,
+    etag: response.headers.etag,
+    lastModified: response.headers["last-modified"],
+    fetchedAt: new Date().toISOString(),
+    data: packument,
+  });
+  return packument;
 }
 
-export async function getPackageMetadata(name: string): Promise<any> {
-  try {
-    const res = await fetch(`https://registry.npmjs.org/${name}`);
-    const data = await res.json();
-    return data;
-  } catch(error) {
-    throw new Error(`Failed to fetch package info for ${name}: ${error}`);
+/**
+ * Streams a tarball over http or https, with the auth token configured for its URL
+ */
+export async function fetchTarball(url: string, cacheMode: CacheMode = "online", resource?: string): Promise<Readable> {
+  if (cacheMode === "offline") {
+    throw new OfflineError(resource ? `The tarball of ${resource}` : url);
   }
+  return request(url, { resource: resource ? `the tarball of ${resource}` : undefined });
+}
+
+/**
+ * The registry configured in .npmrc, with metadata cached as `cacheMode` allows
+ */
+export function createRegistryClient(cacheMode: CacheMode = "online"): RegistryClient {
+  return {
+    getPackument: (name) => getPackageMetadata(name, cacheMode),
+    getVersion: (dep) => getPackageInfo(dep, cacheMode),
+    fetchTarball: (url, resource) => fetchTarball(url, cacheMode, resource),
+  };
 }
@@ -0,0 +1,91 @@
+import fs from "fs";
+import path from "path";
+import { syncDependencies } from "../commands/install/install";
+import { cleanCache } from "./cache";
+import { publishToLocalRegistry } from "./localRegistry";
+import {
+  nodeModulesPath,
+  outputDir,
+  packageJsonPath,
+  packageLockJsonPath,
+  projectNpmrcPath,
+} from "./paths";
+import { createRegistryClient } from "./registry";
+import { RegistryServer, startRegistryServer } from "./registryServer";
+
+const registryPath = path.join(outputDir, "served-registry");
+const packagesPath = path.join(outputDir, "served-registry-packages");
+
+async function publish(manifest: Record<string, unknown>) {
+  const packagePath = path.join(packagesPath, `${manifest.name}@${manifest.version}`);
+  fs.mkdirSync(packagePath, { recursive: true });
+  fs.writeFileSync(path.join(packagePath, "package.json"), JSON.stringify(manifest));
+  await publishToLocalRegistry(registryPath, packagePath);
+}
+
+describe("registry server", () => {
+  let server: RegistryServer;
+  let originalPackageJson: string;
+
+  beforeAll(async () => {
+    // Publishing is reproducible, so tarballs cached by an earlier run would be installed without a download
+    cleanCache();
+    await publish({ name: "served-a", version: "1.0.0", dependencies: { "@served/b": "^1.0.0" } });
+    await publish({ name: "@served/b", version: "1.0.0" });
+    await publish({ name: "@served/b", version: "1.2.0" });
+    server = await startRegistryServer(registryPath);
+    fs.writeFileSync(projectNpmrcPath, `registry=${server.url}\n`);
+    originalPackageJson = fs.readFileSync(packageJsonPath, "utf8");
+  });
+
+  afterAll(async () => {
+    await server.close();
+    fs.writeFileSync(packageJsonPath, originalPackageJson);
+    fs.rmSync(projectNpmrcPath, { force: true });
+    fs.rmSync(registryPath, { recursive: true, force: true });
+    fs.rmSync(packagesPath, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+    fs.rmSync(packageLockJsonPath, { force: true });
+  });
+
+  it("serves packuments, single versions and dist-tags to the registry client", async () => {
+    const registry = createRegistryClient();
+
+    const packument = await registry.getPackument("@served/b");
+    expect(packument.versions["1.0.0"].dist.tarball).toBe(`${server.url}@served/b/-/b-1.0.0.tgz`);
+    expect((await registry.getVersion({ name: "@served/b", version: "1.0.0" })).version).toBe("1.0.0");
+    expect((await registry.getVersion({ name: "@served/b", version: "latest" })).version).toBe("1.2.0");
+    await expect(registry.fetchTarball(`${server.url}missing/-/missing-1.0.0.tgz`)).rejects.toThrow("404");
+    expect(server.requests).toEqual([
+      "@served/b",
+      "@served/b/1.0.0",
+      "@served/b/latest",
+      "missing/-/missing-1.0.0.tgz",
+    ]);
+  });
+
+  it("installs from the server end to end, and offline from the cache afterwards", async () => {
+    fs.writeFileSync(packageJsonPath, JSON.stringify({ dependencies: { "served-a": "^1.0.0" } }));
+
+    await syncDependencies();
+    const installed = JSON.parse(fs.readFileSync(path.join(nodeModulesPath, "@served", "b", "package.json"), "utf8"));
+    expect(installed.version).toBe("1.2.0");
+    expect(server.requests).toContain("served-a/-/served-a-1.0.0.tgz");
+
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+    fs.rmSync(packageLockJsonPath, { force: true });
+    server.requests.length = 0;
+    await syncDependencies({ offline: true });
+    expect(fs.existsSync(path.join(nodeModulesPath, "served-a", "package.json"))).toBe(true);
+    expect(server.requests).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import path from "path";
+import semver from "semver";
+import { readLocalPackument } from "./localRegistry";
+import { findVersion } from "./registry";
+
+/**
+ * url: the registry URL to point clients at, ending in a slash like the registry URLs in .npmrc
+ * requests: the path of every request received, in order
+ * close: stops the server
+ */
+export interface RegistryServer {
+  url: string;
+  requests: string[];
+  close(): Promise<void>;
+}
+
+function sendJson(req: http.IncomingMessage, res: http.ServerResponse, status: number, body: unknown) {
+  const json = JSON.stringify(body);
+  const etag = `"${crypto.createHash("sha1").update(json).digest("hex")}"`;
+  if (status === 200 && req.headers["if-none-match"] === etag) {
+    res.writeHead(304, { ETag: etag }).end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json", ETag: etag }).end(json);
+}
+
+/**
+ * Serves a local registry directory (see localRegistry.ts) over http on a free local port, answering the requests
+ * that installs make: packuments at "/<name>", single versions or dist-tags at "/<name>/<version>", and tarballs.
+ * Packuments carry an ETag, so cached metadata can be revalidated.
+ */
+export async function startRegistryServer(directory: string): Promise<RegistryServer> {
+  const requests: string[] = [];
+  let url = "";
+  const getTarballUrl = (tarballPath: string) => `${url}${tarballPath}`;
+
+  const server = http.createServer((req, res) => {
+    const requestPath = decodeURIComponent(new URL(req.url || "/", url).pathname).slice(1);
+    requests.push(requestPath);
+
+    if (requestPath.endsWith(".tgz")) {
+      const tarballFile = path.resolve(directory, requestPath);
+      if (!tarballFile.startsWith(path.resolve(directory) + path.sep) || !fs.existsSync(tarballFile)) {
+        sendJson(req, res, 404, { error: "Not found" });
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/octet-stream" });
+      fs.createReadStream(tarballFile).pipe(res);
+      return;
+    }
+
+    const packument = readLocalPackument(directory, requestPath, getTarballUrl);
+    if (packument) {
+      sendJson(req, res, 200, packument);
+      return;
+    }
+
+    // "/<name>/<version or tag>", where scoped names take up two segments
+    const separator = requestPath.lastIndexOf("/");
+    const name = requestPath.slice(0, separator);
+    const spec = requestPath.slice(separator + 1);
+    const manifest = separator > 0 && readLocalPackument(directory, name, getTarballUrl);
+    const version = manifest && findVersion(manifest, semver.valid(spec) ? "version" : "tag", spec);
+    if (version) {
+      sendJson(req, res, 200, version);
+    } else {
+      sendJson(req, res, 404, { error: "Not found" });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+  return {
+    url,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
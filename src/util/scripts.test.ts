@@ -0,0 +1,133 @@
+import fs from "fs";
+import path from "path";
+import { DependencyGraph, DependencyRanges } from "../types";
+import { nodeModulesPath, outputDir } from "./paths";
+import { getBuildOrder, LifecycleScriptError, runInstallScripts, runScript } from "./scripts";
+
+const logPath = path.join(outputDir, "scripts.log");
+
+// Appends "<package> <stage>" to the log, so tests can see which scripts ran and in what order
+const logScript = `node -e "require('fs').appendFileSync(process.env.SCRIPTS_LOG, ` +
+  `process.env.npm_package_name + ' ' + process.env.npm_lifecycle_event + '\\n')"`;
+
+function writePackage(name: string, version: string, scripts: Record<string, string>, extra = {}) {
+  const packagePath = path.join(nodeModulesPath, name);
+  fs.mkdirSync(packagePath, { recursive: true });
+  fs.writeFileSync(path.join(packagePath, "package.json"), JSON.stringify({ name, version, scripts, ...extra }));
+  return packagePath;
+}
+
+function readLog(): string[] {
+  return fs.existsSync(logPath) ? fs.readFileSync(logPath, "utf8").trim().split("\n") : [];
+}
+
+describe("scripts", () => {
+  beforeEach(() => {
+    process.env.SCRIPTS_LOG = logPath;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+    fs.rmSync(logPath, { force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.SCRIPTS_LOG;
+    jest.restoreAllMocks();
+    fs.rmSync(nodeModulesPath, { recursive: true, force: true });
+    fs.rmSync(logPath, { force: true });
+  });
+
+  it("runs a script with npm's environment and node_modules/.bin on PATH", async () => {
+    const packagePath = writePackage(
+      "env-check",
+      "1.2.3",
+      {
+        postinstall: `node -e "require('fs').writeFileSync('env.json', JSON.stringify(process.env))"`,
+      },
+      { config: { port: 8080 } }
+    );
+
+    expect(await runScript(packagePath, "postinstall")).toBe(true);
+    expect(await runScript(packagePath, "preinstall")).toBe(false);
+
+    const env = JSON.parse(fs.readFileSync(path.join(packagePath, "env.json"), "utf8"));
+    expect(env).toMatchObject({
+      npm_package_name: "env-check",
+      npm_package_version: "1.2.3",
+      npm_package_config_port: "8080",
+      npm_lifecycle_event: "postinstall",
+      INIT_CWD: outputDir,
+    });
+    expect(env.PATH.split(path.delimiter).slice(0, 3)).toEqual([
+      path.join(packagePath, "node_modules", ".bin"),
+      path.join(nodeModulesPath, "node_modules", ".bin"),
+      path.join(outputDir, "node_modules", ".bin"),
+    ]);
+  });
+
+  it("fails with the output of a failing script", async () => {
+    const packagePath = writePackage("broken", "1.0.0", {
+      install: `node -e "console.log('compiling'); process.exit(3)"`,
+    });
+
+    const error = await runScript(packagePath, "install").catch((e) => e);
+    expect(error).toBeInstanceOf(LifecycleScriptError);
+    expect(error.exitCode).toBe(3);
+    expect(error.message).toContain("The install script of broken@1.0.0 failed with exit code 3:\ncompiling");
+  });
+
+  it("orders packages after their dependencies, even through cycles", () => {
+    const plan = [
+      { name: "app", version: "1.0.0" },
+      { name: "lib", version: "1.0.0" },
+      { name: "native", version: "2.0.0" },
+    ];
+    const graph: DependencyGraph = new Map<string, DependencyRanges>([
+      ["app@1.0.0", { dependencies: { lib: "^1.0.0" } }],
+      ["lib@1.0.0", { dependencies: { native: "^2.0.0", app: "^1.0.0" } }],
+    ]);
+
+    expect(getBuildOrder(plan, graph)).toEqual(["native@2.0.0", "lib@1.0.0", "app@1.0.0"]);
+  });
+
+  it("runs install scripts of new packages in dependency order, honoring the allowlist", async () => {
+    writePackage("app", "1.0.0", { preinstall: logScript, postinstall: logScript });
+    writePackage("native", "1.0.0", { install: logScript });
+    writePackage("untrusted", "1.0.0", { postinstall: logScript });
+    const plan = [
+      { name: "app", version: "1.0.0" },
+      { name: "native", version: "1.0.0" },
+      { name: "untrusted", version: "1.0.0" },
+    ];
+    const graph = new Map([["app@1.0.0", { dependencies: { native: "^1.0.0" } }]]);
+
+    await runInstallScripts(plan, plan, graph, { allowScripts: ["app", "native"] });
+    expect(readLog()).toEqual(["native install", "app preinstall", "app postinstall"]);
+
+    fs.rmSync(logPath);
+    await runInstallScripts(plan, plan, graph, { ignoreScripts: true });
+    expect(readLog()).toEqual([]);
+  });
+
+  it("runs install scripts on copies of the files hardlinked from the cache", async () => {
+    const packagePath = writePackage("builds", "1.0.0", {
+      postinstall: `node -e "require('fs').appendFileSync('data.txt', 'built')"`,
+    });
+    const cachedPath = path.join(outputDir, "cached-data.txt");
+    fs.writeFileSync(cachedPath, "cached ");
+    fs.linkSync(cachedPath, path.join(packagePath, "data.txt"));
+    const plan = [{ name: "builds", version: "1.0.0" }];
+
+    await runInstallScripts(plan, plan, new Map());
+    expect(fs.readFileSync(path.join(packagePath, "data.txt"), "utf8")).toBe("cached built");
+    expect(fs.readFileSync(cachedPath, "utf8")).toBe("cached ");
+    fs.rmSync(cachedPath);
+  });
+
+  it("deletes a package whose script fails, so the next install retries it", async () => {
+    const packagePath = writePackage("broken", "1.0.0", { postinstall: "exit 1" });
+    const plan = [{ name: "broken", version: "1.0.0" }];
+
+    await expect(runInstallScripts(plan, plan, new Map())).rejects.toThrow(LifecycleScriptError);
+    expect(fs.existsSync(packagePath)).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import path from "path";
+import { DependencyGraph, DependencyInstallation, InstallationPlan } from "../types";
+import { unlinkFromCache } from "./cache";
+import { getInstallLocation } from "./lockfile";
+import { outputDir } from "./paths";
+import { findVisibleInstallation, getDependencyEdges, indexByLocation } from "./tree";
+
+// The scripts that run, in this order, for each package that was just installed
+export const INSTALL_STAGES = ["preinstall", "install", "postinstall"] as const;
+
+/**
+ * Thrown when a lifecycle script exits with an error, carrying everything the script printed
+ */
+export class LifecycleScriptError extends Error {
+  constructor(
+    readonly packageSpec: string,
+    readonly stage: string,
+    readonly exitCode: number | null,
+    readonly output: string
+  ) {
+    super(`The ${stage} script of ${packageSpec} failed with exit code ${exitCode}${output ? `:\n${output}` : ""}`);
+    this.name = "LifecycleScriptError";
+  }
+}
+
+/**
+ * ignoreScripts: don't run any lifecycle scripts
+ * allowScripts: only run the install scripts of dependencies with these names (the project's own scripts still run)
+ */
+export interface ScriptOptions {
+  ignoreScripts?: boolean;
+  allowScripts?: string[];
+}
+
+/**
+ * args: extra arguments to append to the script, each quoted for the shell
+ * foreground: let the script print straight to the terminal (and read from it) instead of collecting its output for
+ * the error message
+ */
+export interface RunScriptOptions {
+  args?: string[];
+  foreground?: boolean;
+}
+
+export interface PackageManifest {
+  name?: string;
+  version?: string;
+  scripts?: Record<string, string>;
+  config?: Record<string, unknown>;
+}
+
+export function readManifest(packagePath: string): PackageManifest {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(packagePath, "package.json"), "utf8"));
+  } catch (e) {
+    return {};
+  }
+}
+
+/**
+ * Builds the environment a script runs in: every node_modules/.bin from the package up to the project on PATH, and the
+ * npm_package_* and npm_lifecycle_* variables that npm sets
+ */
+export function getScriptEnvironment(
+  packagePath: string,
+  manifest: PackageManifest,
+  stage: string
+): NodeJS.ProcessEnv {
+  const binDirectories: string[] = [];
+  for (let directory = packagePath; ; directory = path.dirname(directory)) {
+    binDirectories.push(path.join(directory, "node_modules", ".bin"));
+    if (directory === outputDir || directory === path.dirname(directory)) {
+      break;
+    }
+  }
+
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    PATH: [...binDirectories, process.env.PATH].filter(Boolean).join(path.delimiter),
+    INIT_CWD: outputDir,
+    npm_lifecycle_event: stage,
+    npm_lifecycle_script: manifest.scripts?.[stage],
+    npm_package_json: path.join(packagePath, "package.json"),
+    npm_package_name: manifest.name,
+    npm_package_version: manifest.version,
+  };
+  for (const [key, value] of Object.entries(manifest.config || {})) {
+    env[`npm_package_config_${key}`] = String(value);
+  }
+  return env;
+}
+
+// Quotes an argument so that the shell passes it to the script unchanged
+function quoteArgument(arg: string): string {
+  if (process.platform === "win32") {
+    return `"${arg.replace(/"/g, '""')}"`;
+  }
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Runs one script of the package at `packagePath` (a lifecycle script, or any other one) if it has it, returning
+ * whether it did
+ */
+export async function runScript(
+  packagePath: string,
+  stage: string,
+  options: RunScriptOptions = {}
+): Promise<boolean> {
+  const manifest = readManifest(packagePath);
+  const script = manifest.scripts?.[stage];
+  if (!script) {
+    return false;
+  }
+
+  const packageSpec = `${manifest.name}@${manifest.version}`;
+  const command = [script, ...(options.args || []).map(quoteArgument)].join(" ");
+  console.log(`Running ${stage} script of ${packageSpec}: ${command}`);
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn(command, {
+      cwd: packagePath,
+      env: getScriptEnvironment(packagePath, manifest, stage),
+      shell: true,
+      stdio: options.foreground ? "inherit" : ["ignore", "pipe", "pipe"],
+    });
+    let output = "";
+    child.stdout?.on("data", (chunk: Buffer) => (output += chunk));
+    child.stderr?.on("data", (chunk: Buffer) => (output += chunk));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new LifecycleScriptError(packageSpec, stage, code, output));
+      }
+    });
+  });
+  return true;
+}
+
+// Identifies a version independently of where, or under which alias, it is installed
+function getPackageKey(dep: DependencyInstallation): string {
+  return `${dep.packageName || dep.name}@${dep.version}`;
+}
+
+/**
+ * Orders the versions in the plan ("name@version") so that each comes after everything it depends on. Packages in a
+ * cycle are ordered as they are first reached.
+ */
+export function getBuildOrder(plan: InstallationPlan, graph: DependencyGraph): string[] {
+  const installed = indexByLocation(plan);
+  const order: string[] = [];
+  const visited = new Set<string>();
+
+  function visit(dep: DependencyInstallation) {
+    const key = getPackageKey(dep);
+    if (visited.has(key)) {
+      return;
+    }
+    visited.add(key);
+    for (const edge of getDependencyEdges(graph.get(`${dep.name}@${dep.version}`))) {
+      const target = findVisibleInstallation(installed, edge.name, dep);
+      if (target) {
+        visit(target);
+      }
+    }
+    order.push(key);
+  }
+
+  for (const dep of plan) {
+    visit(dep);
+  }
+  return order;
+}
+
+/**
+ * Runs the install scripts of the packages that were just installed, dependencies first. A package whose script fails
+ * is deleted again, so that the next install retries it rather than keeping a broken copy.
+ */
+export async function runInstallScripts(
+  added: InstallationPlan,
+  plan: InstallationPlan,
+  graph: DependencyGraph,
+  options: ScriptOptions = {}
+): Promise<void> {
+  if (options.ignoreScripts) {
+    return;
+  }
+
+  const order = getBuildOrder(plan, graph);
+  const sorted = [...added].sort((a, b) => order.indexOf(getPackageKey(a)) - order.indexOf(getPackageKey(b)));
+  for (const dep of sorted) {
+    const packagePath = path.join(outputDir, getInstallLocation(dep));
+    const scripts = readManifest(packagePath).scripts || {};
+    if (!INSTALL_STAGES.some((stage) => scripts[stage])) {
+      continue;
+    }
+    if (options.allowScripts && !options.allowScripts.includes(dep.packageName || dep.name)) {
+      console.log(`Skipping install scripts of ${getPackageKey(dep)}, which is not in the allowlist`);
+      continue;
+    }
+
+    try {
+      // Scripts often write into their own package, which must not reach the files it shares with the global cache
+      unlinkFromCache(packagePath);
+      for (const stage of INSTALL_STAGES) {
+        await runScript(packagePath, stage);
+      }
+    } catch (e) {
+      fs.rmSync(packagePath, { recursive: true, force: true });
+      throw e;
+    }
+  }
+}
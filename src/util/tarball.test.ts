@@ -0,0 +1,78 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { outputDir } from "./paths";
+import { extractTarball, moveIntoPlace } from "./tarball";
+const tar = require("tar");
+
+const workPath = path.join(outputDir, "tarball-test");
+
+// Packs the given files, at their paths inside the tarball, into a gzipped tarball
+async function pack(files: Record<string, string>): Promise<string> {
+  const sourcePath = path.join(workPath, "source");
+  for (const [file, contents] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(sourcePath, file)), { recursive: true });
+    fs.writeFileSync(path.join(sourcePath, file), contents);
+  }
+  const tarballPath = path.join(workPath, "package.tgz");
+  // Entries starting with "./", as some packing tools write them
+  const entries = fs.readdirSync(sourcePath).map((entry) => `./${entry}`);
+  await tar.create({ gzip: true, file: tarballPath, cwd: sourcePath }, entries);
+  fs.rmSync(sourcePath, { recursive: true, force: true });
+  return tarballPath;
+}
+
+describe("tarballs", () => {
+  let extractPath: string;
+
+  beforeEach(() => {
+    extractPath = path.join(workPath, "extracted");
+    fs.mkdirSync(extractPath, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(workPath, { recursive: true, force: true });
+  });
+
+  it("finds the package in its top-level folder, whatever it is called", async () => {
+    const tarballPath = await pack({ "node/package.json": "{}", "node/lib/index.js": "" });
+
+    const chunks: Buffer[] = [];
+    const packagePath = await extractTarball(fs.createReadStream(tarballPath), extractPath, (chunk) =>
+      chunks.push(chunk)
+    );
+    expect(packagePath).toBe(path.join(extractPath, "node"));
+    expect(fs.readdirSync(packagePath).sort()).toEqual(["lib", "package.json"]);
+    expect(Buffer.concat(chunks).equals(fs.readFileSync(tarballPath))).toBe(true);
+  });
+
+  it("takes files that aren't in a single folder as they are", async () => {
+    const tarballPath = await pack({ "package.json": "{}", "index.js": "" });
+
+    const packagePath = await extractTarball(fs.createReadStream(tarballPath), extractPath);
+    expect(packagePath).toBe(extractPath);
+    expect(fs.readdirSync(packagePath).sort()).toEqual(["index.js", "package.json"]);
+  });
+
+  it("rejects a truncated tarball", async () => {
+    const tarballPath = await pack({ "package/package.json": "{}" });
+    const truncated = fs.readFileSync(tarballPath).subarray(0, 20);
+
+    await expect(extractTarball(Readable.from([truncated]), extractPath)).rejects.toThrow();
+  });
+
+  it("replaces a folder in one move, and puts the old one back if the move fails", () => {
+    const destPath = path.join(workPath, "dest");
+    fs.mkdirSync(destPath);
+    fs.writeFileSync(path.join(destPath, "old"), "");
+    fs.writeFileSync(path.join(extractPath, "new"), "");
+
+    moveIntoPlace(extractPath, destPath);
+    expect(fs.readdirSync(destPath)).toEqual(["new"]);
+    expect(fs.readdirSync(workPath)).toEqual(["dest"]);
+
+    expect(() => moveIntoPlace(path.join(workPath, "missing"), destPath)).toThrow();
+    expect(fs.readdirSync(destPath)).toEqual(["new"]);
+    expect(fs.readdirSync(workPath)).toEqual(["dest"]);
+  });
+});
@@ -0,0 +1,63 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import zlib from "zlib";
+const tar = require("tar");
+
+/**
+ * Extracts a gzipped tarball into `directory` as it streams in, handing each compressed chunk to `onChunk` on the way
+ * (to hash the tarball without a second pass). A truncated or corrupt tarball rejects, leaving whatever was extracted
+ * for the caller to clean up.
+ *
+ * @returns Where the package's files are: the tarball's top-level folder, whatever it is called (usually "package",
+ * but "@types" tarballs use the bare name), or `directory` itself if the files aren't in a single folder
+ */
+export async function extractTarball(
+  tarball: Readable,
+  directory: string,
+  onChunk?: (chunk: Buffer) => void
+): Promise<string> {
+  await pipeline(
+    tarball,
+    new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        onChunk?.(chunk);
+        callback(null, chunk);
+      },
+    }),
+    zlib.createGunzip(),
+    tar.extract({ cwd: directory, strict: true })
+  );
+
+  const entries = fs.readdirSync(directory, { withFileTypes: true });
+  return entries.length === 1 && entries[0].isDirectory() ? path.join(directory, entries[0].name) : directory;
+}
+
+/**
+ * Moves the folder at `sourcePath` to `destPath` with a single rename, replacing anything already there. The old
+ * folder is set aside first and put back if the move fails, so `destPath` always holds one complete folder or the other.
+ */
+export function moveIntoPlace(sourcePath: string, destPath: string) {
+  fs.mkdirSync(path.dirname(destPath), { recursive: true });
+  // Hidden, so that nothing reading node_modules mistakes it for a package
+  const backupPath = fs.existsSync(destPath)
+    ? path.join(path.dirname(destPath), `.${path.basename(destPath)}-${crypto.randomBytes(4).toString("hex")}`)
+    : undefined;
+
+  if (backupPath) {
+    fs.renameSync(destPath, backupPath);
+  }
+  try {
+    fs.renameSync(sourcePath, destPath);
+  } catch (e) {
+    if (backupPath) {
+      fs.renameSync(backupPath, destPath);
+    }
+    throw e;
+  }
+  if (backupPath) {
+    fs.rmSync(backupPath, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  findVisibleInstallation,
+  getDependencyEdges,
+  getLookupDirectories,
+  getTopLevelEdges,
+  indexByLocation,
+} from "./tree";
+
+describe("tree", () => {
+  it("lists lookup directories from the innermost outwards", () => {
+    expect(getLookupDirectories()).toEqual(["node_modules"]);
+    expect(getLookupDirectories("node_modules/a/node_modules/@scope/b")).toEqual([
+      "node_modules/a/node_modules/@scope/b/node_modules",
+      "node_modules/a/node_modules",
+      "node_modules",
+    ]);
+  });
+
+  it("finds the installation that Node would resolve", () => {
+    const a = { name: "a", version: "1.0.0" };
+    const nestedShared = { name: "shared", version: "1.0.0", parentDirectory: "a/node_modules" };
+    const rootShared = { name: "shared", version: "2.0.0" };
+    const installed = indexByLocation([a, nestedShared, rootShared]);
+
+    expect(findVisibleInstallation(installed, "shared", a)).toBe(nestedShared);
+    expect(findVisibleInstallation(installed, "shared")).toBe(rootShared);
+    expect(findVisibleInstallation(installed, "missing", a)).toBeUndefined();
+  });
+
+  it("lists dependency edges with their kinds", () => {
+    expect(
+      getDependencyEdges({
+        dependencies: { a: "^1.0.0" },
+        optionalDependencies: { b: "^2.0.0" },
+        peerDependencies: { c: "3", d: "4" },
+        peerDependenciesMeta: { d: { optional: true } },
+      })
+    ).toEqual([
+      { name: "a", range: "^1.0.0" },
+      { name: "b", range: "^2.0.0", kind: "optional", optional: true },
+      { name: "c", range: "3", kind: "peer" },
+      { name: "d", range: "4", kind: "peer", optional: true },
+    ]);
+    expect(
+      getTopLevelEdges({ all: { a: "1", b: "2" }, dev: new Set(["a"]), optional: new Set(["b"]) })
+    ).toEqual([
+      { name: "a", range: "1", kind: "dev" },
+      { name: "b", range: "2", kind: "optional", optional: true },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { DependencyInstallation, DependencyRanges } from "../types";
+import { getInstallLocation } from "./lockfile";
+import { TopLevelDependencies } from "./packageJson";
+
+/**
+ * One range that a package (or the project) asks for
+ *
+ * name: the name it requires
+ * range: the range it asks for
+ * kind: how it asks for it, if not as a regular dependency
+ * optional: whether it still works without it (optional dependencies and peers marked optional)
+ */
+export interface DependencyEdge {
+  name: string;
+  range: string;
+  kind?: "dev" | "optional" | "peer";
+  optional?: boolean;
+}
+
+/**
+ * Lists the node_modules folders that Node searches, in order, when the package at `location` requires something, e.g.
+ * "node_modules/a/node_modules/b" searches "node_modules/a/node_modules/b/node_modules", "node_modules/a/node_modules"
+ * and then "node_modules". The project itself (no location) only searches "node_modules".
+ */
+export function getLookupDirectories(location?: string): string[] {
+  if (!location) {
+    return ["node_modules"];
+  }
+
+  const segments = location.split("/node_modules/");
+  const directories: string[] = [];
+  for (let i = segments.length; i > 0; i--) {
+    directories.push(`${segments.slice(0, i).join("/node_modules/")}/node_modules`);
+  }
+  directories.push("node_modules");
+  return directories;
+}
+
+export function indexByLocation<T extends DependencyInstallation>(
+  installations: T[]
+): Map<string, T> {
+  return new Map(installations.map((dep) => [getInstallLocation(dep), dep]));
+}
+
+/**
+ * Returns the installation that `from` (or the project itself) gets when it requires `name`
+ */
+export function findVisibleInstallation<T extends DependencyInstallation>(
+  installed: Map<string, T>,
+  name: string,
+  from?: DependencyInstallation
+): T | undefined {
+  for (const directory of getLookupDirectories(from && getInstallLocation(from))) {
+    const dep = installed.get(`${directory}/${name}`);
+    if (dep) {
+      return dep;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists the ranges a package asks for: its dependencies, then its optional dependencies, then its peers
+ */
+export function getDependencyEdges(ranges: DependencyRanges = {}): DependencyEdge[] {
+  const peersMeta = ranges.peerDependenciesMeta || {};
+  return [
+    ...Object.entries(ranges.dependencies || {}).map(([name, range]): DependencyEdge => ({ name, range })),
+    ...Object.entries(ranges.optionalDependencies || {}).map(
+      ([name, range]): DependencyEdge => ({ name, range, kind: "optional", optional: true })
+    ),
+    ...Object.entries(ranges.peerDependencies || {}).map(
+      ([name, range]): DependencyEdge => (peersMeta[name]?.optional
+        ? { name, range, kind: "peer", optional: true }
+        : { name, range, kind: "peer" })
+    ),
+  ];
+}
+
+/**
+ * Lists the ranges the project itself asks for
+ */
+export function getTopLevelEdges(topLevel: TopLevelDependencies): DependencyEdge[] {
+  return Object.entries(topLevel.all).map(([name, range]): DependencyEdge => {
+    if (topLevel.optional.has(name)) {
+      return { name, range, kind: "optional", optional: true };
+    }
+    return topLevel.dev.has(name) ? { name, range, kind: "dev" } : { name, range };
+  });
+}